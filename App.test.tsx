@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { PDFDocument } from 'pdf-lib';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { mockProvider, setProvider } from './services/providers';
+
+// App flows against the mock provider. jsdom plays and decodes no audio,
+// so those browser APIs are stubbed.
+
+beforeAll(() => {
+  setProvider(mockProvider);
+  let urls = 0;
+  URL.createObjectURL = () => `blob:mock/${++urls}`;
+  URL.revokeObjectURL = () => {};
+  vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+  vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+  // jsdom's Blob has no arrayBuffer()
+  Blob.prototype.arrayBuffer ??= function (this: Blob) {
+    return new Promise<ArrayBuffer>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+  // Ten seconds of silence, whatever the recording
+  vi.stubGlobal('OfflineAudioContext', class {
+    constructor(_channels: number, _length: number, private sampleRate: number) {}
+    async decodeAudioData() {
+      const samples = new Float32Array(this.sampleRate * 10);
+      return { length: samples.length, numberOfChannels: 1, sampleRate: this.sampleRate, getChannelData: () => samples };
+    }
+  });
+});
+
+afterEach(cleanup);
+
+const createPdf = async () => {
+  const pdf = await PDFDocument.create();
+  pdf.addPage();
+  return new File([await pdf.save()], 'Sample.pdf', { type: 'application/pdf' });
+};
+
+const selectFile = (input: Element, file: File) => fireEvent.change(input, { target: { files: [file] } });
+
+describe('App', () => {
+  it('reads an uploaded document and narrates it', async () => {
+    const { container } = render(<App />);
+    selectFile(container.querySelector('input[type="file"]')!, await createPdf());
+
+    expect(await screen.findByText(/produced by the mock provider/)).toBeTruthy();
+    expect(screen.getAllByText('Sample.pdf').length).toBeGreaterThan(0);
+    expect(screen.getByText('Chapter 2. The Second Part')).toBeTruthy();
+
+    fireEvent.click(screen.getAllByTitle(/^Read aloud with /)[0]);
+    expect(await screen.findByText('Now Playing')).toBeTruthy();
+    await vi.waitFor(() => expect(container.querySelector('audio')?.getAttribute('src')).toMatch(/^blob:mock\//));
+    expect(screen.getByText(/^Part 1 of \d+$/)).toBeTruthy();
+  });
+
+  it('transcribes an uploaded recording', async () => {
+    const { container } = render(<App />);
+    fireEvent.click(screen.getByText('Transcribe'));
+    const recording = new File([new Uint8Array(1000)], 'Meeting.wav', { type: 'audio/wav' });
+    const input = container.querySelector<HTMLInputElement>('input[accept="audio/*"]')!;
+    selectFile(input, recording);
+
+    expect(await screen.findByText(/Mock transcription of \d+ bytes of audio\/wav audio/)).toBeTruthy();
+    expect(screen.getByText('A second speaker replies.')).toBeTruthy();
+    // Finished without an error, and kept in the transcript library
+    await vi.waitFor(() => expect(input.disabled).toBe(false));
+    expect(screen.getAllByText('Meeting.wav').length).toBeGreaterThan(0);
+  });
+});
@@ -1,14 +1,84 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AppView, ProcessingState, ImageSize, HistoryItem, Bookmark } from './types';
+import { AppView, ProcessingState, ImageSize, HistoryItem, Bookmark, NarrationChunk, Highlight, HighlightColor, DocumentSection, ExtractionMethod, AppSettings, UsageRecord, NarrationStyle, LexiconEntry, SummaryLength, TranscriptItem } from './types';
 import { 
-    extractTextFromDocument, 
-    generateSpeech, 
-    transcribeAudio, 
     analyzeImage, 
-    generateImage 
+    generateImage,
+    summarizeTranscript,
+    extractActionItems,
+    extractDecisions
 } from './services/geminiService';
-import { fileToBase64, blobToBase64 } from './services/utils';
+import { fileToBase64, blobToBase64, downloadBlob, formatTime } from './services/utils';
+import {
+    splitTextIntoChunks,
+    synthesizeChunk,
+    estimateNarrationTime,
+    locateNarrationTime,
+    revokeChunkUrls,
+    buildChunkTiming,
+    findSentenceAt,
+    getPositionForOffset,
+    getPositionForTime,
+    estimateWordRange,
+    getSkipPosition,
+    NarrationPosition,
+    SkipUnit
+} from './services/narration';
+import { restoreNarration, saveNarrationChunk, clearItemAudio, clearTranslationAudio, getAudioUsageByItem, getLanguageCacheKey } from './services/audioStore';
+import { loadLibrary, putLibraryItem, deleteLibraryItem } from './services/libraryStore';
+import { getStorageEstimate, StorageQuotaError } from './services/db';
+import {
+    exportLibrary,
+    getArchiveFileName,
+    parseLibraryArchive,
+    planImport,
+    resolveConflict,
+    importArchiveAudio,
+    importMissingArchiveAudio,
+    LibraryArchive,
+    ImportConflict,
+    ConflictChoice
+} from './services/libraryArchive';
 import LiveSession from './components/LiveSession';
+import ReadAlongText from './components/ReadAlongText';
+import ImportConflictDialog from './components/ImportConflictDialog';
+import BookmarkPanel from './components/BookmarkPanel';
+import AnnotationsPanel from './components/AnnotationsPanel';
+import TableOfContents from './components/TableOfContents';
+import SettingsPanel from './components/SettingsPanel';
+import UsageDashboard from './components/UsageDashboard';
+import BudgetWarningDialog from './components/BudgetWarningDialog';
+import VoicePicker from './components/VoicePicker';
+import CastPanel from './components/CastPanel';
+import NarrationStylePanel, { LexiconScope } from './components/NarrationStylePanel';
+import AudiobookExportDialog from './components/AudiobookExportDialog';
+import TransportControls, { SleepTimer, SleepTimerChoice } from './components/TransportControls';
+import AudioRecorder from './components/AudioRecorder';
+import TranscriptView from './components/TranscriptView';
+import TranscriptLibrary from './components/TranscriptLibrary';
+import TranscriptTools from './components/TranscriptTools';
+import TranslationBar from './components/TranslationBar';
+import TranslationView, { ReadingVersion } from './components/TranslationView';
+import { findSectionAt, getChapterEnd, getSectionBoundaries } from './services/documentModel';
+import { ingestDocument, listIngestionJobs, discardIngestionJob, IngestionJob } from './services/ingestion';
+import { getTranscriptText, renameSpeaker, transcribeRecording, translateTranscript } from './services/transcription';
+import { NarrationState, getTranslatedItem, translateDocument, updateNarrationState } from './services/translation';
+import { deleteTranscript, loadTranscriptAudio, loadTranscripts, putTranscript, saveTranscriptAudio, updateTranscript } from './services/transcriptStore';
+import { buildAnnotationsMarkdown, getAnnotationsFileName } from './services/annotations';
+import { getDefaultVoice, getSettings, saveSettings } from './services/settings';
+import { VOICE_CATALOGUE, findVoice } from './services/voices';
+import {
+    assignDefaultVoices,
+    detectDialogue,
+    getCastVoiceKey,
+    isCastVoiceKey,
+    listCharacters,
+    parseCastVoiceKey,
+    synthesizeCastChunk
+} from './services/dialogue';
+import { AudiobookOptions, buildAudiobook } from './services/audiobook';
+import { DEFAULT_NARRATION_STYLE, SpeechDelivery, getNarrationCacheKey, mergeLexicons } from './services/speechStyle';
+import { isCancelled, RequestCancelledError } from './services/request';
+import { BudgetCheck, BudgetExceededError, clearUsage, loadUsage, setBudgetGuard } from './services/usage';
 import { 
     BookOpen, 
     Mic, 
@@ -26,38 +96,84 @@ import {
     Trash2,
     Gauge,
     Pause,
-    RotateCcw
+    RotateCcw,
+    HardDrive,
+    CheckSquare,
+    Square,
+    Settings as SettingsIcon,
+    X,
+    BarChart3
 } from 'lucide-react';
 
-// Spanish/English Voice Options Mapping
-const VOICE_OPTIONS = [
-    { id: 'v1', name: 'Voice A (Fem)', desc: 'Clear & Professional', geminiVoiceName: 'Kore' },
-    { id: 'v2', name: 'Voice B (Masc)', desc: 'Deep & Steady', geminiVoiceName: 'Fenrir' },
-    { id: 'v3', name: 'Voice C (Fem)', desc: 'Soft & Storyteller', geminiVoiceName: 'Puck' },
-];
+const EXTRACTION_LABELS: Record<ExtractionMethod, string> = {
+    'local-text': 'Plain text',
+    'local-html': 'HTML',
+    'local-markdown': 'Markdown',
+    'local-epub': 'EPUB',
+    'gemini': 'Gemini',
+};
 
 export default function App() {
     const [currentView, setCurrentView] = useState<AppView>(AppView.READER);
     const [procState, setProcState] = useState<ProcessingState>({ isLoading: false, status: '' });
+    const [settings, setSettings] = useState<AppSettings>(getSettings);
+
+    // Usage & Budget
+    const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+    const [budgetPrompt, setBudgetPrompt] = useState<{ check: BudgetCheck; resolve: (proceed: boolean) => void } | null>(null);
     
     // Reader State
     const [extractedText, setExtractedText] = useState<string>('');
     const [detectedLang, setDetectedLang] = useState<string>('');
-    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [narrationChunks, setNarrationChunks] = useState<NarrationChunk[]>([]);
+    const [currentChunk, setCurrentChunk] = useState<number>(0);
+    const [narrationPosition, setNarrationPosition] = useState<NarrationPosition | null>(null); // Drives read-along highlighting
+    const [previewFocus, setPreviewFocus] = useState<{ offset: number } | null>(null);
     const [currentDocId, setCurrentDocId] = useState<string | null>(null);
-    const [playbackRate, setPlaybackRate] = useState<number>(1.0);
+    const [playbackRate, setPlaybackRate] = useState<number>(() => getSettings().playbackRate);
+    const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+    const [shownTranslation, setShownTranslation] = useState<string | null>(null); // Language of the translation shown beside the original
+    const [readingLanguage, setReadingLanguage] = useState<string | null>(null); // Translation being narrated, null for the original
     
     // History & Persistence
-    const [history, setHistory] = useState<HistoryItem[]>(() => {
-        const saved = localStorage.getItem('omni_history');
-        return saved ? JSON.parse(saved) : [];
-    });
+    const [history, setHistory] = useState<HistoryItem[]>([]);
+    const persistedHistoryRef = useRef<HistoryItem[] | null>(null); // Last state written to IndexedDB, null until loaded
+
+    // Library export/import
+    const [isSelectingDocs, setIsSelectingDocs] = useState<boolean>(false);
+    const [selectedDocIds, setSelectedDocIds] = useState<string[]>([]);
+    const [pendingImport, setPendingImport] = useState<{ archive: LibraryArchive; conflicts: ImportConflict[] } | null>(null);
+
+    // Large PDFs whose extraction stopped part-way (e.g. the page was reloaded)
+    const [unfinishedIngestions, setUnfinishedIngestions] = useState<IngestionJob[]>([]);
+
+    const [showAudiobookExport, setShowAudiobookExport] = useState<boolean>(false);
+
+    // Cached narration audio, in bytes per HistoryItem id
+    const [audioUsage, setAudioUsage] = useState<Record<string, number>>({});
+    const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
 
     // Refs
     const audioRef = useRef<HTMLAudioElement>(null);
+    const narrationRunRef = useRef<number>(0); // Bumped to abandon an in-flight narration
+    const narrationVoiceRef = useRef<string>('');
+    const narrationDeliveryRef = useRef<SpeechDelivery>({ style: DEFAULT_NARRATION_STYLE, lexicon: [] }); // Style and lexicon of the open narration
+    const narrationCacheKeyRef = useRef<string>(''); // Audio cache key: voice plus delivery
+    const readingLanguageRef = useRef<string | null>(null); // readingLanguage, for handlers that run before it re-renders
+    const pendingSeekRef = useRef<number | null>(null); // Offset to apply once the current chunk loads
+    const pendingResumeRef = useRef<Pick<HistoryItem, 'lastPosition' | 'lastOffset'> | null>(null); // Waiting for its chunk to be generated
+    const narrationAbortRef = useRef<AbortController>(new AbortController()); // Aborts narration requests on reset or cancel
+    const cancelRequestRef = useRef<(() => void) | null>(null); // Cancels the request shown in the loading banner
+    // Latest transport handlers, for the keyboard and Media Session listeners registered once
+    const transportRef = useRef<{ shortcut: (e: KeyboardEvent) => boolean; skip: (unit: SkipUnit, direction: 1 | -1) => void } | null>(null);
+
+    const audioUrl = narrationChunks[currentChunk]?.audioUrl ?? null;
 
     // Transcribe State
-    const [transcription, setTranscription] = useState<string>('');
+    const [transcripts, setTranscripts] = useState<TranscriptItem[]>([]);
+    const [currentTranscriptId, setCurrentTranscriptId] = useState<string | null>(null);
+    const [transcribingId, setTranscribingId] = useState<string | null>(null); // Transcript still being transcribed
+    const [transcriptAudioUrl, setTranscriptAudioUrl] = useState<string | null>(null); // The open transcript's recording, for click-to-play
     
     // Analyze State
     const [analysisResult, setAnalysisResult] = useState<string>('');
@@ -65,16 +181,66 @@ export default function App() {
 
     // Generate State
     const [genPrompt, setGenPrompt] = useState('');
-    const [genSize, setGenSize] = useState<ImageSize>(ImageSize.SIZE_1K);
+    const [genSize, setGenSize] = useState<ImageSize>(() => getSettings().imageSize);
     const [generatedImgBase64, setGeneratedImgBase64] = useState<string>('');
 
     // --- Effects ---
     
-    // Save history whenever it changes
+    // Load the library once; documents added before it finishes are kept
     useEffect(() => {
-        localStorage.setItem('omni_history', JSON.stringify(history));
+        loadLibrary()
+            .then(items => {
+                persistedHistoryRef.current = items;
+                setHistory(prev => [...prev, ...items.filter(item => !prev.some(p => p.id === item.id))]);
+            })
+            .catch((err: any) => {
+                persistedHistoryRef.current = [];
+                setProcState(prev => ({ ...prev, error: `Could not open the library: ${err.message}` }));
+            });
+    }, []);
+
+    // Write only the documents that changed since the last save. Updates
+    // always replace the item object, so a reference check is enough.
+    useEffect(() => {
+        const previous = persistedHistoryRef.current;
+        if (!previous) return;
+        persistedHistoryRef.current = history;
+
+        const previousById = new Map(previous.map(item => [item.id, item]));
+        for (const item of history) {
+            if (previousById.get(item.id) !== item) {
+                putLibraryItem(item).catch(err => handleLibraryWriteError(err, item.fileName));
+            }
+        }
+        const currentIds = new Set(history.map(item => item.id));
+        for (const item of previous) {
+            if (!currentIds.has(item.id)) {
+                deleteLibraryItem(item.id).catch(err => handleLibraryWriteError(err, item.fileName));
+            }
+        }
     }, [history]);
 
+    useEffect(() => {
+        refreshAudioUsage();
+        refreshIngestions();
+    }, []);
+
+    useEffect(() => {
+        loadTranscripts()
+            .then(items => setTranscripts(prev => [...prev, ...items.filter(item => !prev.some(p => p.id === item.id))]))
+            .catch((err: any) => setProcState(prev => ({ ...prev, error: `Could not open the transcripts: ${err.message}` })));
+    }, []);
+
+    // Ask before a model call would go over the monthly budget
+    useEffect(() => {
+        setBudgetGuard(check => new Promise(resolve => setBudgetPrompt({ check, resolve })));
+        return () => setBudgetGuard(null);
+    }, []);
+
+    useEffect(() => {
+        if (currentView === AppView.USAGE) refreshUsage();
+    }, [currentView]);
+
     // Apply playback rate when audio player exists or rate changes
     useEffect(() => {
         if (audioRef.current) {
@@ -82,46 +248,204 @@ export default function App() {
         }
     }, [playbackRate, audioUrl]);
 
+    // Pause when a timed sleep timer runs out
+    useEffect(() => {
+        if (sleepTimer?.kind !== 'minutes') return;
+        const timeout = setTimeout(() => {
+            audioRef.current?.pause();
+            setSleepTimer(null);
+        }, Math.max(0, sleepTimer.endsAt - Date.now()));
+        return () => clearTimeout(timeout);
+    }, [sleepTimer]);
+
+    // Reader shortcuts, ignored while typing or using the player's own controls
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            if ((e.target as HTMLElement).closest?.('input, textarea, select, audio, [contenteditable="true"]')) return;
+            if (transportRef.current?.shortcut(e)) e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Lock-screen and headset buttons. Track buttons skip by paragraph, seek
+    // buttons by sentence.
+    useEffect(() => {
+        if (!('mediaSession' in navigator)) return;
+        const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+            ['play', () => { audioRef.current?.play(); }],
+            ['pause', () => audioRef.current?.pause()],
+            ['previoustrack', () => transportRef.current?.skip('paragraph', -1)],
+            ['nexttrack', () => transportRef.current?.skip('paragraph', 1)],
+            ['seekbackward', () => transportRef.current?.skip('sentence', -1)],
+            ['seekforward', () => transportRef.current?.skip('sentence', 1)],
+        ];
+        const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+            try {
+                navigator.mediaSession.setActionHandler(action, handler);
+            } catch {
+                // Action not supported by this browser
+            }
+        };
+        actions.forEach(([action, handler]) => setHandler(action, handler));
+        return () => actions.forEach(([action]) => setHandler(action, null));
+    }, []);
+
+    // Show the document being read on the lock screen
+    const playingTitle = narrationChunks.length > 0 ? history.find(h => h.id === currentDocId)?.fileName : undefined;
+    useEffect(() => {
+        if (!('mediaSession' in navigator)) return;
+        navigator.mediaSession.metadata = playingTitle
+            ? new MediaMetadata({ title: playingTitle, album: 'Gemini OmniReader' })
+            : null;
+    }, [playingTitle]);
+
+    // Resume where the listener left off as soon as the chunk containing it is ready
+    useEffect(() => {
+        const resume = pendingResumeRef.current;
+        if (resume === null) return;
+        const resumed = resume.lastOffset !== undefined
+            ? seekToPosition(getPositionForOffset(getReadingItem()?.timingMap ?? [], resume.lastOffset))
+            : seekToNarrationTime(resume.lastPosition);
+        if (resumed) pendingResumeRef.current = null;
+    }, [narrationChunks]);
+
     // --- Helpers ---
 
-    const formatTime = (seconds: number) => {
-        const m = Math.floor(seconds / 60);
-        const s = Math.floor(seconds % 60);
-        return `${m}:${s < 10 ? '0' : ''}${s}`;
+    const formatBytes = (bytes: number) => {
+        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+        if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
     };
 
     const updateHistoryItem = (id: string, updates: Partial<HistoryItem>) => {
         setHistory(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
     };
 
+    // The open document as narration reads it: the original, or the
+    // translation being narrated
+    const getReadingItem = (): HistoryItem | undefined => {
+        const item = history.find(h => h.id === currentDocId);
+        const language = readingLanguageRef.current;
+        return item && language ? getTranslatedItem(item, language) : item;
+    };
+
+    // Voice, timings and position are saved for the version being narrated
+    const updateNarrationRecord = (id: string, update: (state: NarrationState) => Partial<NarrationState>) => {
+        const language = readingLanguageRef.current;
+        setHistory(prev => prev.map(item => item.id === id ? updateNarrationState(item, language, update) : item));
+    };
+
+    const selectReadingLanguage = (language: string | null) => {
+        readingLanguageRef.current = language;
+        setReadingLanguage(language);
+    };
+
     const deleteHistoryItem = (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
         setHistory(prev => prev.filter(item => item.id !== id));
+        clearItemAudio(id).then(refreshAudioUsage).catch(handleStorageError);
         if (currentDocId === id) {
             setExtractedText('');
-            setAudioUrl(null);
+            resetNarration();
             setCurrentDocId(null);
+            setShownTranslation(null);
+            selectReadingLanguage(null);
         }
     };
 
+    const updateChunk = (index: number, updates: Partial<NarrationChunk>) => {
+        setNarrationChunks(prev => prev.map(chunk => chunk.index === index ? { ...chunk, ...updates } : chunk));
+    };
+
+    // Drops the current playlist and abandons any chunks still being generated
+    const resetNarration = () => {
+        narrationRunRef.current++;
+        narrationAbortRef.current.abort();
+        narrationAbortRef.current = new AbortController();
+        revokeChunkUrls(narrationChunks);
+        setNarrationChunks([]);
+        setCurrentChunk(0);
+        setSleepTimer(null);
+        pendingSeekRef.current = null;
+        pendingResumeRef.current = null;
+    };
+
+    // The chunk being played and the seconds into it. Read-along, skipping,
+    // bookmarks and resuming work from this rather than a time in the whole
+    // narration, which is unknown until every earlier chunk is generated.
+    const getNarrationPosition = (): NarrationPosition | null => {
+        if (!audioRef.current) return null;
+        return { index: currentChunk, offset: audioRef.current.currentTime };
+    };
+
+    // Where the listener left off, from the sentence they were at or, for
+    // documents saved before that was kept, from the time
+    const getSavedPosition = (item: HistoryItem): NarrationPosition | null => {
+        const timings = item.timingMap ?? [];
+        return item.lastOffset !== undefined ? getPositionForOffset(timings, item.lastOffset) : getPositionForTime(timings, item.lastPosition);
+    };
+
+    // Returns false if the target's chunk is not ready yet
+    const seekToPosition = (target: NarrationPosition | null): boolean => {
+        if (!target || narrationChunks[target.index]?.status !== 'ready') return false;
+        if (target.index === currentChunk && audioRef.current && audioRef.current.readyState > 0) {
+            audioRef.current.currentTime = target.offset;
+            audioRef.current.play();
+        } else {
+            pendingSeekRef.current = target.offset;
+            setCurrentChunk(target.index);
+        }
+        return true;
+    };
+
+    const seekToNarrationTime = (time: number): boolean => seekToPosition(locateNarrationTime(narrationChunks, time));
+
     // --- Handlers ---
 
+    // Shows a loading status with a Cancel button and returns the signal
+    // the button aborts.
+    const beginCancellableRequest = (status: string): AbortSignal => {
+        const controller = new AbortController();
+        cancelRequestRef.current = () => controller.abort();
+        setProcState({ isLoading: true, status, cancellable: true });
+        return controller.signal;
+    };
+
+    const handleCancelRequest = () => {
+        cancelRequestRef.current?.();
+        cancelRequestRef.current = null;
+    };
+
+    // Cancelling is not an error
+    const handleRequestError = (err: any) => {
+        setProcState(isCancelled(err)
+            ? { isLoading: false, status: 'Cancelled' }
+            : { isLoading: false, status: '', error: err.message });
+    };
+
     // 1. Reader Handler
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again to resume it
         if (!file) return;
 
-        setProcState({ isLoading: true, status: 'Reading document...' });
-        setAudioUrl(null);
+        const signal = beginCancellableRequest('Reading document...');
+        resetNarration();
         setExtractedText('');
         setCurrentDocId(null);
+        setShownTranslation(null);
+        selectReadingLanguage(null);
+        // Known up front so the extraction's usage is counted against it
+        const newDocId = crypto.randomUUID();
 
         try {
-            const base64 = await fileToBase64(file);
-            const result = await extractTextFromDocument(base64, file.type);
+            const result = await ingestDocument(file, ({ pagesDone, pageCount }) => {
+                setProcState({ isLoading: true, status: `Reading document... page ${pagesDone} of ${pageCount}`, cancellable: true });
+            }, { signal, documentId: newDocId });
             
             // Create History Item
-            const newDocId = crypto.randomUUID();
             const newItem: HistoryItem = {
                 id: newDocId,
                 fileName: file.name,
@@ -129,148 +453,901 @@ export default function App() {
                 text: result.text,
                 language: result.language,
                 bookmarks: [],
-                lastPosition: 0
+                lastPosition: 0,
+                sections: result.sections,
+                pages: result.pages,
+                footnotes: result.footnotes,
+                skippedHeaderFooterLines: result.skippedHeaderFooterLines,
+                extractionMethod: result.method
             };
 
             setHistory(prev => [newItem, ...prev]);
             setCurrentDocId(newDocId);
             setExtractedText(result.text);
             setDetectedLang(result.language);
+            setNarrationPosition(null);
             setProcState({ isLoading: false, status: 'Ready to read' });
         } catch (err: any) {
-            setProcState({ isLoading: false, status: '', error: err.message });
+            handleRequestError(err);
         }
+        refreshIngestions();
+    };
+
+    const refreshIngestions = async () => {
+        try {
+            setUnfinishedIngestions(await listIngestionJobs());
+        } catch (err) {
+            console.error(err); // IndexedDB unavailable, nothing to resume
+        }
+    };
+
+    const handleDiscardIngestion = async (key: string) => {
+        await discardIngestionJob(key).catch(handleStorageError);
+        refreshIngestions();
     };
 
     const handleHistoryClick = (item: HistoryItem) => {
         setExtractedText(item.text);
         setDetectedLang(item.language);
         setCurrentDocId(item.id);
-        setAudioUrl(null); // Reset audio as we need to regenerate/reload
+        setNarrationPosition(getSavedPosition(item)); // Highlights where the listener left off
+        resetNarration();
+        setShownTranslation(null);
+        selectReadingLanguage(null);
         setProcState({ isLoading: false, status: 'Loaded from history' });
+
+        // Restore the last narration from the audio cache, if there is one
+        if (item.narrationVoice) {
+            openNarration(item, item.text, item.narrationVoice, true);
+        }
         
         // Scroll to top
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
-    const handleReadAloud = async (voiceId: string) => {
-        if (!extractedText) return;
-        const voice = VOICE_OPTIONS.find(v => v.id === voiceId);
-        if (!voice) return;
+    const handleStorageError = (err: any) => {
+        setProcState(prev => ({ ...prev, error: err.message }));
+    };
 
-        setProcState({ isLoading: true, status: `Generating audio with ${voice.name}...` });
+    const handleLibraryWriteError = (err: any, fileName: string) => {
+        const message = err instanceof StorageQuotaError
+            ? `Browser storage is full, so changes to "${fileName}" were not saved. Clear cached audio or delete documents from the Library to free up space.`
+            : `Could not save "${fileName}" to the library: ${err.message}`;
+        setProcState(prev => ({ ...prev, error: message }));
+    };
+
+    const refreshAudioUsage = async () => {
         try {
-            // We limit text length for demo purposes to avoid huge latency/costs, 
-            // but in a real app we'd chunk it.
-            const audioBase64 = await generateSpeech(extractedText.slice(0, 4000), voice.geminiVoiceName);
-            const blob = await (await fetch(`data:audio/mp3;base64,${audioBase64}`)).blob();
-            const url = URL.createObjectURL(blob);
-            setAudioUrl(url);
-            setProcState({ isLoading: false, status: 'Playing audio' });
-            
-            // Auto-resume logic will be handled by onCanPlay in the audio tag
+            setAudioUsage(await getAudioUsageByItem());
+            setStorageEstimate(await getStorageEstimate());
+        } catch (err) {
+            console.error(err); // IndexedDB unavailable, nothing to report
+        }
+    };
+
+    const handleClearCachedAudio = async (e: React.MouseEvent, id: string) => {
+        e.stopPropagation();
+        try {
+            await clearItemAudio(id);
+        } catch (err: any) {
+            handleStorageError(err);
+        }
+        refreshAudioUsage();
+    };
+
+    const toggleDocSelection = (id: string) => {
+        setSelectedDocIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    };
+
+    // Exports the selected documents, or the whole library if none are selected
+    const handleExportLibrary = async () => {
+        const items = selectedDocIds.length > 0 ? history.filter(h => selectedDocIds.includes(h.id)) : history;
+        if (items.length === 0) return;
+
+        setProcState({ isLoading: true, status: `Exporting ${items.length} documents...` });
+        try {
+            const blob = await exportLibrary(items);
+            downloadBlob(blob, getArchiveFileName(items.length));
+            setIsSelectingDocs(false);
+            setSelectedDocIds([]);
+            setProcState({ isLoading: false, status: 'Library exported' });
+        } catch (err: any) {
+            setProcState({ isLoading: false, status: '', error: err.message });
+        }
+    };
+
+    // Stores the imported documents with their audio. Documents kept as they
+    // are (keptIds) only take archived audio that is not cached here yet.
+    // The documents are kept even if their audio cannot be saved; the
+    // returned message then says so.
+    const applyImportedItems = async (archive: LibraryArchive, items: HistoryItem[], keptIds: string[]): Promise<string | undefined> => {
+        if (items.length === 0 && keptIds.length === 0) return undefined;
+        setHistory(prev => [...prev.filter(p => !items.some(i => i.id === p.id)), ...items].sort((a, b) => b.uploadDate - a.uploadDate));
+        try {
+            await importArchiveAudio(archive, items.map(i => i.id));
+            await importMissingArchiveAudio(archive, keptIds);
+            return undefined;
+        } catch (err: any) {
+            return `The documents were imported without their narration audio, which could not be saved: ${err.message}`;
+        } finally {
+            refreshAudioUsage();
+        }
+    };
+
+    const handleImportLibrary = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+
+        setProcState({ isLoading: true, status: 'Importing library...' });
+        try {
+            const archive = await parseLibraryArchive(file);
+            const plan = planImport(archive, history);
+            const audioError = await applyImportedItems(archive, plan.additions, plan.unchanged.map(i => i.id));
+            if (plan.conflicts.length > 0) {
+                setPendingImport({ archive, conflicts: plan.conflicts });
+                setProcState({ isLoading: false, status: `Imported ${plan.additions.length} documents, ${plan.conflicts.length} need review`, error: audioError });
+            } else {
+                setProcState({ isLoading: false, status: `Imported ${plan.additions.length} documents`, error: audioError });
+            }
         } catch (err: any) {
             setProcState({ isLoading: false, status: '', error: err.message });
         }
     };
 
+    const handleResolveImport = async (choices: Record<string, ConflictChoice>) => {
+        if (!pendingImport) return;
+        const { archive, conflicts } = pendingImport;
+        setPendingImport(null);
+
+        const resolved = conflicts
+            .map(conflict => resolveConflict(conflict, choices[conflict.local.id]))
+            .filter((item): item is HistoryItem => item !== null);
+        const keptIds = conflicts.filter(c => choices[c.local.id] === 'keep').map(c => c.local.id);
+        const audioError = await applyImportedItems(archive, resolved, keptIds);
+        setProcState({ isLoading: false, status: `Updated ${resolved.length} documents`, error: audioError });
+    };
+
+    // Style and pronunciations to read a document with
+    const getDelivery = (item: HistoryItem | undefined): SpeechDelivery => ({
+        style: item?.narrationStyle ?? DEFAULT_NARRATION_STYLE,
+        lexicon: mergeLexicons(settings.lexicon, item?.lexicon)
+    });
+
+    // Sets up the playlist for a document, marking chunks that are already in
+    // the audio cache as ready. With cachedOnly, nothing is set up unless at
+    // least one chunk was cached. Returns null if nothing was set up or
+    // another narration started in the meantime.
+    const openNarration = async (
+        item: HistoryItem | undefined,
+        text: string,
+        voiceName: string,
+        cachedOnly: boolean
+    ): Promise<{ chunks: NarrationChunk[]; run: number } | null> => {
+        resetNarration();
+        const run = narrationRunRef.current;
+        narrationVoiceRef.current = voiceName;
+        narrationDeliveryRef.current = getDelivery(item);
+        // Translations are cached apart from the original
+        narrationCacheKeyRef.current = getLanguageCacheKey(getNarrationCacheKey(voiceName, narrationDeliveryRef.current), readingLanguageRef.current);
+        const boundaries = getSectionBoundaries(item?.sections);
+        const chunks = item
+            ? await restoreNarration(item.id, narrationCacheKeyRef.current, text, boundaries)
+            : splitTextIntoChunks(text, boundaries);
+        const ready = chunks.filter(c => c.status === 'ready');
+        if (narrationRunRef.current !== run || (cachedOnly && ready.length === 0)) {
+            revokeChunkUrls(chunks);
+            return null;
+        }
+
+        // Auto-resume if the listener was more than 5 seconds in
+        pendingResumeRef.current = item && item.lastPosition > 5 ? { lastPosition: item.lastPosition, lastOffset: item.lastOffset } : null;
+        setNarrationChunks(chunks);
+        if (item) {
+            // Timings depend on the voice, so rebuild them from what was restored
+            updateNarrationRecord(item.id, () => ({
+                narrationVoice: voiceName,
+                timingMap: ready.map(c => buildChunkTiming(text, c))
+            }));
+        }
+        return { chunks, run };
+    };
+
+    // Signal for narration requests. Generation that resumes after a cancel
+    // gets a fresh one.
+    const getNarrationSignal = () => {
+        if (narrationAbortRef.current.signal.aborted) narrationAbortRef.current = new AbortController();
+        return narrationAbortRef.current.signal;
+    };
+
+    // Generates one chunk of the playlist and returns its audio. Returns null
+    // if it failed or the narration was reset while it was generating.
+    const synthesizeNarrationChunk = async (chunk: NarrationChunk, run: number): Promise<Blob | null> => {
+        const voiceName = narrationVoiceRef.current;
+        const delivery = narrationDeliveryRef.current;
+        const cacheKey = narrationCacheKeyRef.current;
+        const readingItem = getReadingItem();
+        const text = readingItem?.text ?? extractedText;
+        updateChunk(chunk.index, { status: 'generating', error: undefined });
+        try {
+            const options = { signal: getNarrationSignal(), documentId: currentDocId ?? undefined };
+            const dialogue = readingItem?.dialogue ?? [];
+            const { blob, audioUrl, duration } = isCastVoiceKey(voiceName)
+                ? await synthesizeCastChunk(text, chunk, dialogue, parseCastVoiceKey(voiceName), options, delivery)
+                : await synthesizeChunk(chunk.text, voiceName, options, delivery);
+            if (narrationRunRef.current !== run) {
+                URL.revokeObjectURL(audioUrl);
+                return null;
+            }
+            updateChunk(chunk.index, { status: 'ready', audioUrl, duration });
+            if (currentDocId) {
+                const timing = buildChunkTiming(text, { ...chunk, duration });
+                updateNarrationRecord(currentDocId, state => ({
+                    timingMap: [...(state.timingMap ?? []).filter(t => t.index !== timing.index), timing].sort((a, b) => a.index - b.index)
+                }));
+                saveNarrationChunk({ itemId: currentDocId, voiceName: cacheKey, index: chunk.index, start: chunk.start, end: chunk.end, duration, blob })
+                    .then(refreshAudioUsage)
+                    .catch(handleStorageError);
+            }
+            return blob;
+        } catch (err: any) {
+            if (narrationRunRef.current === run) {
+                updateChunk(chunk.index, isCancelled(err) ? { status: 'pending' } : { status: 'error', error: err.message });
+                // Declining to go over the budget stops the remaining parts too
+                if (err instanceof BudgetExceededError) narrationAbortRef.current.abort(err);
+            }
+            return null;
+        }
+    };
+
+    // Generates every chunk that is not ready yet, in order from startIndex
+    // and then wrapping around. The first one starts playing while the rest
+    // are still being synthesized.
+    const generateNarration = async (chunks: NarrationChunk[], run: number, startIndex = 0) => {
+        const ordered = [...chunks.slice(startIndex), ...chunks.slice(0, startIndex)];
+        const missing = ordered.filter(c => c.status !== 'ready');
+        if (missing.length === 0) return;
+        const voiceName = narrationVoiceRef.current;
+        const label = isCastVoiceKey(voiceName) ? 'the cast' : findVoice(voiceName)?.name ?? voiceName;
+        let started = ordered[0].status === 'ready';
+        const signal = getNarrationSignal();
+        cancelRequestRef.current = () => narrationAbortRef.current.abort(new RequestCancelledError());
+
+        for (const chunk of missing) {
+            if (narrationRunRef.current !== run) return;
+            if (!started) {
+                setProcState({ isLoading: true, status: `Generating audio with ${label} (part ${chunk.index + 1} of ${chunks.length})...`, cancellable: true });
+            }
+            const ok = await synthesizeNarrationChunk(chunk, run);
+            if (narrationRunRef.current !== run) return;
+            if (signal.aborted) {
+                if (!started) handleRequestError(signal.reason);
+                return;
+            }
+            if (ok && !started) {
+                started = true;
+                setProcState({ isLoading: false, status: 'Playing audio' });
+            }
+        }
+        if (!started) {
+            setProcState({ isLoading: false, status: '', error: 'Could not generate audio for this document.' });
+        }
+    };
+
+    const handleReadAloud = async (voiceName: string) => {
+        if (!extractedText) return;
+
+        const item = getReadingItem();
+        const opened = await openNarration(item, item?.text ?? extractedText, voiceName, false);
+        if (!opened) return;
+        if (opened.chunks.every(c => c.status === 'ready')) {
+            setProcState({ isLoading: false, status: 'Playing cached audio' });
+        }
+        generateNarration(opened.chunks, opened.run);
+    };
+
+    // Renders the open narration into an audiobook file. Parts without audio
+    // are generated first, like "Generate remaining" would.
+    const handleExportAudiobook = async (options: AudiobookOptions) => {
+        setShowAudiobookExport(false);
+        const item = getReadingItem();
+        if (!item || narrationChunks.length === 0) return;
+
+        const run = narrationRunRef.current;
+        const signal = getNarrationSignal();
+        cancelRequestRef.current = () => narrationAbortRef.current.abort(new RequestCancelledError());
+        try {
+            const audio: { start: number; end: number; blob: Blob }[] = [];
+            for (const chunk of narrationChunks) {
+                setProcState({ isLoading: true, status: `Preparing audiobook... part ${chunk.index + 1} of ${narrationChunks.length}`, cancellable: true });
+                const blob = chunk.status === 'ready' && chunk.audioUrl
+                    ? await (await fetch(chunk.audioUrl)).blob()
+                    : await synthesizeNarrationChunk(chunk, run);
+                if (signal.aborted) throw signal.reason;
+                if (!blob) throw new Error(`Part ${chunk.index + 1} could not be generated, so the audiobook was not exported.`);
+                audio.push({ start: chunk.start, end: chunk.end, blob });
+            }
+            const file = await buildAudiobook(item, audio, options, ({ stage, fraction }) => {
+                const label = stage === 'decoding' ? 'Decoding audio' : `Encoding ${options.format.toUpperCase()}`;
+                setProcState({ isLoading: true, status: `${label}... ${Math.round(fraction * 100)}%`, cancellable: true });
+            }, signal);
+            downloadBlob(file.blob, file.fileName);
+            setProcState({ isLoading: false, status: 'Audiobook exported' });
+        } catch (err: any) {
+            handleRequestError(err);
+        }
+    };
+
+    // Finds who speaks each line of dialogue and gives every character a
+    // voice. Voices already chosen are kept for characters found again.
+    const handleDetectDialogue = async () => {
+        const item = history.find(h => h.id === currentDocId);
+        if (!item) return;
+
+        const signal = beginCancellableRequest('Finding dialogue...');
+        try {
+            const dialogue = await detectDialogue(item.text, getSectionBoundaries(item.sections), (done, total) => {
+                setProcState({ isLoading: true, status: `Finding dialogue... part ${done + 1} of ${total}`, cancellable: true });
+            }, { signal, documentId: item.id });
+            const characters = listCharacters(dialogue);
+            updateHistoryItem(item.id, {
+                dialogue,
+                speakerVoices: assignDefaultVoices(characters, getDefaultVoice(item.language), item.speakerVoices)
+            });
+            setProcState({ isLoading: false, status: `Found ${characters.length} characters` });
+        } catch (err: any) {
+            handleRequestError(err);
+        }
+    };
+
+    const handleChangeSpeakerVoice = (speaker: string, voiceName: string) => {
+        const item = history.find(h => h.id === currentDocId);
+        if (!item) return;
+        updateHistoryItem(item.id, { speakerVoices: { ...item.speakerVoices, [speaker]: voiceName } });
+    };
+
+    const handleReadWithCast = () => {
+        const item = history.find(h => h.id === currentDocId);
+        if (!item?.speakerVoices) return;
+        handleReadAloud(getCastVoiceKey(item.speakerVoices));
+    };
+
+    const handleChangeNarrationStyle = (narrationStyle: NarrationStyle) => {
+        if (currentDocId) updateHistoryItem(currentDocId, { narrationStyle });
+    };
+
+    // Shared entries live in the settings; the rest belong to the document
+    const handleChangeLexicon = (scope: LexiconScope, lexicon: LexiconEntry[]) => {
+        if (scope === 'shared') handleUpdateSettings({ lexicon });
+        else if (currentDocId) updateHistoryItem(currentDocId, { lexicon });
+    };
+
+    // Translates the document and shows it beside the original. A new
+    // translation replaces the one in the same language, and its narration.
+    const handleTranslateDocument = async (language: string) => {
+        const item = history.find(h => h.id === currentDocId);
+        if (!item) return;
+
+        const signal = beginCancellableRequest('Translating...');
+        try {
+            const translation = await translateDocument(item.text, language, (done, total) => {
+                setProcState({ isLoading: true, status: `Translating... part ${done + 1} of ${total}`, cancellable: true });
+            }, { signal, documentId: item.id });
+            if (readingLanguageRef.current === language) handleNarrateVersion('original');
+            updateHistoryItem(item.id, { translations: [...(item.translations ?? []).filter(t => t.language !== language), translation] });
+            setShownTranslation(language);
+            setProcState({ isLoading: false, status: 'Translated' });
+            clearTranslationAudio(item.id, language).then(refreshAudioUsage).catch(handleStorageError);
+        } catch (err: any) {
+            handleRequestError(err);
+        }
+    };
+
+    // Hiding the translation being read goes back to reading the original
+    const handleShowTranslation = (language: string | null) => {
+        if (readingLanguageRef.current && readingLanguageRef.current !== language) handleNarrateVersion('original');
+        setShownTranslation(language);
+    };
+
+    const handleDeleteTranslation = (language: string) => {
+        const item = history.find(h => h.id === currentDocId);
+        if (!item) return;
+        handleShowTranslation(null);
+        updateHistoryItem(item.id, { translations: item.translations?.filter(t => t.language !== language) });
+        clearTranslationAudio(item.id, language).then(refreshAudioUsage).catch(handleStorageError);
+    };
+
+    // Switches narration between the original and the translation shown,
+    // restoring that version's last narration from the audio cache
+    const handleNarrateVersion = (version: ReadingVersion) => {
+        const language = version === 'translation' ? shownTranslation : null;
+        if (language === readingLanguageRef.current) return;
+        selectReadingLanguage(language);
+        resetNarration();
+        const item = getReadingItem();
+        setNarrationPosition(item ? getSavedPosition(item) : null);
+        if (item?.narrationVoice) openNarration(item, item.text, item.narrationVoice, true);
+    };
+
+    // Starts narration at a table of contents entry. Chunks always begin at
+    // section starts, so the section's chunk is played from its beginning
+    // and generated first if needed.
+    const handleStartFromSection = async (section: DocumentSection) => {
+        const item = getReadingItem();
+        if (!item) return;
+        const index = narrationChunks.findIndex(c => c.start <= section.start && section.start < c.end);
+        if (index >= 0 && narrationChunks[index].status === 'ready') {
+            pendingResumeRef.current = null;
+            handleJumpToChunk(index);
+            return;
+        }
+
+        const voiceName = item.narrationVoice ?? getDefaultVoice(item.language);
+        const opened = await openNarration(item, item.text, voiceName, false);
+        if (!opened) return;
+        const startIndex = Math.max(0, opened.chunks.findIndex(c => c.start <= section.start && section.start < c.end));
+        pendingResumeRef.current = null;
+        pendingSeekRef.current = null;
+        setCurrentChunk(startIndex);
+        generateNarration(opened.chunks, opened.run, startIndex);
+    };
+
+    const handleGenerateRemaining = () => {
+        generateNarration(narrationChunks, narrationRunRef.current);
+    };
+
+    const handleRetryChunk = (index: number) => {
+        const chunk = narrationChunks[index];
+        if (!chunk || chunk.status === 'generating') return;
+        synthesizeNarrationChunk(chunk, narrationRunRef.current);
+    };
+
+    const handleJumpToChunk = (index: number) => {
+        if (index === currentChunk && audioRef.current) {
+            audioRef.current.currentTime = 0;
+            audioRef.current.play();
+            return;
+        }
+        pendingSeekRef.current = null;
+        setCurrentChunk(index);
+    };
+
+    // Bookmarks belong to the original, so none are added while a
+    // translation is read
     const handleAddBookmark = () => {
-        if (!audioRef.current || !currentDocId) return;
-        const currentTime = audioRef.current.currentTime;
+        const position = getNarrationPosition();
+        if (!position || !currentDocId || readingLanguageRef.current) return;
+        const currentItem = history.find(h => h.id === currentDocId);
+        if (!currentItem) return;
+        // Estimated while earlier parts are missing; jumps use the text anchor
+        const currentTime = estimateNarrationTime(narrationChunks, position);
+
+        // Anchor the bookmark to the sentence being read
+        const spoken = findSentenceAt(currentItem.timingMap ?? [], position);
+        const snippet = spoken ? extractedText.slice(spoken.sentence.start, spoken.sentence.end) : '';
         
         const newBookmark: Bookmark = {
             id: crypto.randomUUID(),
             time: currentTime,
-            label: `Bookmark at ${formatTime(currentTime)}`
+            label: `Bookmark at ${formatTime(currentTime)}`,
+            textOffset: spoken?.sentence.start,
+            snippet: snippet.length > 160 ? `${snippet.slice(0, 157)}...` : snippet || undefined
         };
 
+        updateHistoryItem(currentDocId, { 
+            bookmarks: [...currentItem.bookmarks, newBookmark].sort((a, b) => a.time - b.time) 
+        });
+    };
+
+    const handleUpdateBookmark = (id: string, updates: Partial<Bookmark>) => {
         const currentItem = history.find(h => h.id === currentDocId);
-        if (currentItem) {
-            updateHistoryItem(currentDocId, { 
-                bookmarks: [...currentItem.bookmarks, newBookmark].sort((a, b) => a.time - b.time) 
-            });
+        if (!currentItem) return;
+        updateHistoryItem(currentItem.id, {
+            bookmarks: currentItem.bookmarks.map(bm => bm.id === id ? { ...bm, ...updates } : bm)
+        });
+    };
+
+    const handleDeleteBookmark = (id: string) => {
+        const currentItem = history.find(h => h.id === currentDocId);
+        if (!currentItem) return;
+        updateHistoryItem(currentItem.id, { bookmarks: currentItem.bookmarks.filter(bm => bm.id !== id) });
+    };
+
+    // Text-anchored bookmarks are resolved through the current timing map, so
+    // they still land on the right sentence after the audio is regenerated
+    // with another voice or speed.
+    const handleJumpToBookmark = (bookmark: Bookmark) => {
+        const timingMap = history.find(h => h.id === currentDocId)?.timingMap ?? [];
+        const found = bookmark.textOffset !== undefined
+            ? seekToPosition(getPositionForOffset(timingMap, bookmark.textOffset))
+            : seekToNarrationTime(bookmark.time);
+        if (!found) {
+            setProcState(prev => ({ ...prev, error: 'That part of the narration has not been generated yet.' }));
         }
     };
 
-    const handleJumpToBookmark = (time: number) => {
-        if (audioRef.current) {
-            audioRef.current.currentTime = time;
-            audioRef.current.play();
+    const updateHighlights = (update: (highlights: Highlight[]) => Highlight[]) => {
+        const currentItem = history.find(h => h.id === currentDocId);
+        if (!currentItem) return;
+        updateHistoryItem(currentItem.id, { highlights: update(currentItem.highlights ?? []) });
+    };
+
+    const handleAddHighlight = (start: number, end: number, color: HighlightColor) => {
+        updateHighlights(highlights => [...highlights, { id: crypto.randomUUID(), start, end, color, createdAt: Date.now() }]);
+    };
+
+    const handleJumpToHighlightAudio = (highlight: Highlight) => {
+        setPreviewFocus({ offset: highlight.start });
+        const timingMap = history.find(h => h.id === currentDocId)?.timingMap ?? [];
+        if (!seekToPosition(getPositionForOffset(timingMap, highlight.start))) {
+            setProcState(prev => ({ ...prev, error: 'That part of the narration has not been generated yet.' }));
         }
     };
 
+    const handleExportAnnotations = () => {
+        const currentItem = history.find(h => h.id === currentDocId);
+        if (!currentItem) return;
+        const markdown = buildAnnotationsMarkdown(currentItem);
+        downloadBlob(new Blob([markdown], { type: 'text/markdown' }), getAnnotationsFileName(currentItem));
+    };
+
     const handleAudioTimeUpdate = () => {
         if (!audioRef.current || !currentDocId) return;
-        // Optimization: Don't update state on every tick, maybe just ref or check interval?
-        // For simplicity in this demo, we won't persist every second to localStorage, 
-        // but we will update the internal history object on Pause or Manual save.
+        // Only drives the read-along highlight; lastPosition is persisted on pause
+        setNarrationPosition(getNarrationPosition());
     };
 
+    const handleSentenceClick = (offset: number) => {
+        const timingMap = getReadingItem()?.timingMap;
+        if (!timingMap?.length || narrationChunks.length === 0) return;
+        if (!seekToPosition(getPositionForOffset(timingMap, offset))) {
+            setProcState(prev => ({ ...prev, error: 'That part of the narration has not been generated yet.' }));
+        }
+    };
+
+    // The time is estimated while earlier parts are missing; resuming goes
+    // by the sentence
     const handleAudioPause = () => {
-        if (!audioRef.current || !currentDocId) return;
-        updateHistoryItem(currentDocId, { lastPosition: audioRef.current.currentTime });
+        const position = getNarrationPosition();
+        if (!position || !currentDocId) return;
+        const spoken = findSentenceAt(getReadingItem()?.timingMap ?? [], position);
+        updateNarrationRecord(currentDocId, () => ({
+            lastPosition: estimateNarrationTime(narrationChunks, position),
+            lastOffset: spoken?.sentence.start
+        }));
     };
 
     const handleAudioLoaded = () => {
-        if (!audioRef.current || !currentDocId) return;
-        const item = history.find(h => h.id === currentDocId);
-        if (item && item.lastPosition > 0) {
-            // Check if user wants to resume? For now, we auto-seek if it's > 5 seconds in
-            if (item.lastPosition > 5) {
-                audioRef.current.currentTime = item.lastPosition;
+        if (!audioRef.current || pendingSeekRef.current === null) return;
+        audioRef.current.currentTime = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+    };
+
+    // Continue with the next chunk of the playlist. If it is not ready yet the
+    // player waits and autoplays it once generated; if it failed, the player
+    // offers to retry it.
+    const handleAudioEnded = () => {
+        // A chapter sleep timer stops before the next chapter's first part
+        const next = narrationChunks[currentChunk + 1];
+        if (sleepTimer?.kind === 'chapter' && (!next || next.start >= sleepTimer.chapterEnd)) {
+            setSleepTimer(null);
+            return;
+        }
+        if (currentChunk < narrationChunks.length - 1) {
+            pendingSeekRef.current = null;
+            setCurrentChunk(currentChunk + 1);
+        }
+    };
+
+    const handleTogglePlayback = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (audio.paused) audio.play();
+        else audio.pause();
+    };
+
+    const handleSkip = (unit: SkipUnit, direction: 1 | -1) => {
+        const item = getReadingItem();
+        const position = getNarrationPosition();
+        const target = position && getSkipPosition(item?.text ?? extractedText, item?.timingMap ?? [], position, unit, direction);
+        if (!target) {
+            // Past the end of what has been generated, or of the document
+            if (narrationChunks.some(c => c.status !== 'ready')) {
+                setProcState(prev => ({ ...prev, error: 'That part of the narration has not been generated yet.' }));
             }
+            return;
+        }
+        seekToPosition(target);
+    };
+
+    const handleChangePlaybackRate = (delta: number) => {
+        setPlaybackRate(rate => Math.min(2, Math.max(0.5, Math.round((rate + delta) * 10) / 10)));
+    };
+
+    // The chapter timer ends with the chapter of the part being played;
+    // parts never cross a chapter start.
+    const handleSetSleepTimer = (choice: SleepTimerChoice | null) => {
+        if (!choice) {
+            setSleepTimer(null);
+        } else if (choice.kind === 'minutes') {
+            setSleepTimer({ ...choice, endsAt: Date.now() + choice.minutes * 60_000 });
+        } else {
+            const item = getReadingItem();
+            const offset = narrationChunks[currentChunk]?.start ?? 0;
+            setSleepTimer({ kind: 'chapter', chapterEnd: getChapterEnd(item?.sections, offset, (item?.text ?? extractedText).length) });
         }
     };
 
+    // Returns whether the key was handled
+    const handleShortcut = (e: KeyboardEvent): boolean => {
+        if (currentView !== AppView.READER || narrationChunks.length === 0) return false;
+        switch (e.key) {
+            case ' ':
+            case 'k':
+            case 'K':
+                handleTogglePlayback();
+                return true;
+            case 'ArrowLeft':
+            case 'ArrowRight':
+                handleSkip(e.shiftKey ? 'paragraph' : 'sentence', e.key === 'ArrowLeft' ? -1 : 1);
+                return true;
+            case '[':
+            case ']':
+                handleChangePlaybackRate(e.key === '[' ? -0.1 : 0.1);
+                return true;
+            case 'b':
+            case 'B':
+                handleAddBookmark();
+                return true;
+        }
+        return false;
+    };
+
+    transportRef.current = { shortcut: handleShortcut, skip: handleSkip };
+
     // 2. Transcribe Handler
-    const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Updates a transcript in the library and saves it
+    const saveTranscriptItem = (item: TranscriptItem) => {
+        setTranscripts(prev => prev.some(t => t.id === item.id) ? prev.map(t => t.id === item.id ? item : t) : [item, ...prev]);
+        putTranscript(item).catch(handleStorageError);
+    };
+
+    const showTranscriptAudio = (blob: Blob | null) => {
+        setTranscriptAudioUrl(prev => {
+            if (prev) URL.revokeObjectURL(prev);
+            return blob ? URL.createObjectURL(blob) : null;
+        });
+    };
+
+    // Long recordings are transcribed in segments; the transcript grows as
+    // each one finishes and is saved, so it is kept if a later segment fails.
+    const transcribe = async (audio: Blob, name: string) => {
+        const signal = beginCancellableRequest('Preparing audio...');
+        const item: TranscriptItem = { id: crypto.randomUUID(), fileName: name, createdAt: Date.now(), duration: 0, transcript: { language: '', segments: [] } };
+        let latest = item;
+        setCurrentTranscriptId(item.id);
+        setTranscribingId(item.id);
+        showTranscriptAudio(audio);
+        try {
+            const { transcript, duration } = await transcribeRecording(audio, ({ transcript, done, total }) => {
+                latest = { ...item, transcript };
+                if (transcript.segments.length > 0) saveTranscriptItem(latest);
+                if (total > 1) setProcState(prev => ({ ...prev, status: `Transcribing part ${Math.min(done + 1, total)} of ${total}...` }));
+                else setProcState(prev => ({ ...prev, status: 'Transcribing audio...' }));
+            }, { signal });
+            latest = { ...item, transcript, duration };
+            if (transcript.segments.length > 0) {
+                saveTranscriptItem(latest);
+                setProcState({ isLoading: false, status: 'Done' });
+            } else {
+                setProcState({ isLoading: false, status: '', error: 'No speech was found in this audio.' });
+            }
+        } catch (err: any) {
+            handleRequestError(err);
+        }
+        setTranscribingId(null);
+        // Keep the recording with whatever was transcribed
+        if (latest.transcript.segments.length > 0) {
+            const segments = latest.transcript.segments;
+            if (!latest.duration) saveTranscriptItem({ ...latest, duration: segments[segments.length - 1].end });
+            saveTranscriptAudio(item.id, audio).catch(handleStorageError);
+        }
+    };
+
+    const handleAudioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (!file) return;
-        
-        setProcState({ isLoading: true, status: 'Transcribing audio...' });
+        e.target.value = '';
+        if (file) transcribe(file, file.name);
+    };
+
+    const handleRecorded = (audio: Blob) => {
+        const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+        transcribe(audio, `Recording ${new Date().toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }).replace(/[/:]/g, '.')}.${extension}`);
+    };
+
+    const handleOpenTranscript = async (item: TranscriptItem) => {
+        if (item.id === currentTranscriptId) return;
+        setCurrentTranscriptId(item.id);
+        showTranscriptAudio(null);
         try {
-            const base64 = await fileToBase64(file);
-            const text = await transcribeAudio(base64, file.type);
-            setTranscription(text);
+            const audio = await loadTranscriptAudio(item.id);
+            if (audio) showTranscriptAudio(audio);
+        } catch (err) {
+            handleStorageError(err);
+        }
+    };
+
+    const handleDeleteTranscript = (id: string) => {
+        setTranscripts(prev => prev.filter(t => t.id !== id));
+        deleteTranscript(id).catch(handleStorageError);
+        if (id === currentTranscriptId) {
+            setCurrentTranscriptId(null);
+            showTranscriptAudio(null);
+        }
+    };
+
+    // Owners of action items are renamed with the speaker
+    const handleRenameSpeaker = (from: string, to: string) => {
+        const item = transcripts.find(t => t.id === currentTranscriptId);
+        if (!item) return;
+        const actionItems = item.actionItems?.map(action => action.owner === from ? { ...action, owner: to } : action);
+        saveTranscriptItem({ ...item, transcript: renameSpeaker(item.transcript, from, to), actionItems });
+    };
+
+    // Saves the result of a transcript tool. Only the given fields are
+    // written, so tools that finish together keep each other's results.
+    const updateTranscriptItem = (id: string, updates: Partial<TranscriptItem>) => {
+        setTranscripts(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+        updateTranscript(id, updates).catch(handleStorageError);
+    };
+
+    const runTranscriptTool = async (status: string, run: (item: TranscriptItem, signal: AbortSignal) => Promise<Partial<TranscriptItem>>) => {
+        const item = transcripts.find(t => t.id === currentTranscriptId);
+        if (!item) return;
+        const signal = beginCancellableRequest(status);
+        try {
+            updateTranscriptItem(item.id, await run(item, signal));
             setProcState({ isLoading: false, status: 'Done' });
         } catch (err: any) {
-            setProcState({ isLoading: false, status: '', error: err.message });
+            handleRequestError(err);
         }
     };
 
+    const handleSummarizeTranscript = (length: SummaryLength) => runTranscriptTool('Summarizing...', async (item, signal) => ({
+        summary: { length, text: await summarizeTranscript(getTranscriptText(item.transcript), length, { signal }) }
+    }));
+
+    const handleExtractActionItems = () => runTranscriptTool('Finding action items...', async (item, signal) => ({
+        actionItems: await extractActionItems(getTranscriptText(item.transcript), { signal })
+    }));
+
+    const handleExtractDecisions = () => runTranscriptTool('Finding key decisions...', async (item, signal) => ({
+        decisions: await extractDecisions(getTranscriptText(item.transcript), { signal })
+    }));
+
+    // A new translation replaces the one in the same language
+    const handleTranslateTranscript = (language: string) => runTranscriptTool('Translating...', async (item, signal) => {
+        const translation = await translateTranscript(item.transcript, language, { signal });
+        return { translations: [...(item.translations ?? []).filter(t => t.language !== language), translation] };
+    });
+
+    // Adds the transcript to the Reader library as a document and opens it
+    const handleSendTranscriptToReader = () => {
+        const item = transcripts.find(t => t.id === currentTranscriptId);
+        if (!item) return;
+        const newItem: HistoryItem = {
+            id: crypto.randomUUID(),
+            fileName: `${item.fileName.replace(/\.[^.]+$/, '')} (transcript)`,
+            uploadDate: Date.now(),
+            text: getTranscriptText(item.transcript),
+            language: item.transcript.language || 'en',
+            bookmarks: [],
+            lastPosition: 0
+        };
+        setHistory(prev => [newItem, ...prev]);
+        handleHistoryClick(newItem);
+        setCurrentView(AppView.READER);
+    };
+
     // 3. Analyze Image Handler
     const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
-        setProcState({ isLoading: true, status: 'Analyzing image...' });
+        const signal = beginCancellableRequest('Analyzing image...');
         const base64 = await fileToBase64(file);
         setAnalyzedImgUrl(`data:${file.type};base64,${base64}`);
 
         try {
-            const text = await analyzeImage(base64, file.type, "Describe this image in detail.");
+            const text = await analyzeImage(base64, file.type, "Describe this image in detail.", { signal });
             setAnalysisResult(text);
             setProcState({ isLoading: false, status: 'Done' });
         } catch (err: any) {
-            setProcState({ isLoading: false, status: '', error: err.message });
+            handleRequestError(err);
         }
     };
 
     // 4. Generate Image Handler
     const handleGenerateImage = async () => {
         if (!genPrompt) return;
-        setProcState({ isLoading: true, status: 'Dreaming up pixels...' });
+        const signal = beginCancellableRequest('Dreaming up pixels...');
         try {
-            const base64 = await generateImage(genPrompt, genSize);
+            const base64 = await generateImage(genPrompt, genSize, { signal });
             setGeneratedImgBase64(base64);
             setProcState({ isLoading: false, status: 'Done' });
         } catch (err: any) {
-            setProcState({ isLoading: false, status: '', error: err.message });
+            handleRequestError(err);
+        }
+    };
+
+    // 5. Settings Handler
+    // The new defaults also apply right away to the current speed and size.
+    const handleSaveSettings = (next: AppSettings) => {
+        try {
+            const saved = saveSettings(next);
+            setSettings(saved);
+            setPlaybackRate(saved.playbackRate);
+            setGenSize(saved.imageSize);
+        } catch (err: any) {
+            setProcState({ isLoading: false, status: '', error: `Could not save settings: ${err.message}` });
+        }
+    };
+
+    // 6. Usage Handlers
+    const refreshUsage = async () => {
+        try {
+            setUsageRecords(await loadUsage());
+        } catch (err: any) {
+            setProcState({ isLoading: false, status: '', error: `Could not load usage: ${err.message}` });
         }
     };
 
+    // Rates, budget and voice preferences are saved as they are edited,
+    // without resetting the current speed and image size
+    const handleUpdateSettings = (updates: Partial<AppSettings>) => {
+        try {
+            setSettings(saveSettings({ ...settings, ...updates }));
+        } catch (err: any) {
+            setProcState({ isLoading: false, status: '', error: `Could not save settings: ${err.message}` });
+        }
+    };
+
+    const handleToggleFavoriteVoice = (voiceName: string) => {
+        const favorites = settings.favoriteVoices;
+        handleUpdateSettings({
+            favoriteVoices: favorites.includes(voiceName) ? favorites.filter(v => v !== voiceName) : [...favorites, voiceName]
+        });
+    };
+
+    const handleSetLanguageVoice = (language: string, voiceName: string) => {
+        handleUpdateSettings({ languageVoices: { ...settings.languageVoices, [language]: voiceName } });
+    };
+
+    const handleClearUsage = async () => {
+        try {
+            await clearUsage();
+            setUsageRecords([]);
+        } catch (err: any) {
+            setProcState({ isLoading: false, status: '', error: `Could not clear usage: ${err.message}` });
+        }
+    };
+
+    const resolveBudgetPrompt = (proceed: boolean) => {
+        budgetPrompt?.resolve(proceed);
+        setBudgetPrompt(null);
+    };
+
     // --- Render Helpers ---
 
+    const renderCancelButton = () => procState.cancellable && (
+        <button
+            onClick={handleCancelRequest}
+            className="ml-2 flex items-center gap-1 px-3 py-1 rounded-lg text-xs text-slate-300 bg-slate-700/50 hover:bg-slate-700 hover:text-white transition-colors"
+        >
+            <X size={14} /> Cancel
+        </button>
+    );
+
     const renderNav = () => (
         <nav className="flex flex-wrap justify-center gap-2 mb-8 bg-slate-800 p-2 rounded-2xl border border-slate-700 w-fit mx-auto sticky top-4 z-50 backdrop-blur-md bg-opacity-90 shadow-xl">
             <NavBtn icon={<BookOpen size={18} />} label="Reader" active={currentView === AppView.READER} onClick={() => setCurrentView(AppView.READER)} />
@@ -278,11 +1355,26 @@ export default function App() {
             <NavBtn icon={<Cpu size={18} />} label="Analyze" active={currentView === AppView.ANALYZE} onClick={() => setCurrentView(AppView.ANALYZE)} />
             <NavBtn icon={<ImageIcon size={18} />} label="Imagine" active={currentView === AppView.GENERATE} onClick={() => setCurrentView(AppView.GENERATE)} />
             <NavBtn icon={<Radio size={18} />} label="Live" active={currentView === AppView.LIVE} onClick={() => setCurrentView(AppView.LIVE)} />
+            <NavBtn icon={<BarChart3 size={18} />} label="Usage" active={currentView === AppView.USAGE} onClick={() => setCurrentView(AppView.USAGE)} />
+            <NavBtn icon={<SettingsIcon size={18} />} label="Settings" active={currentView === AppView.SETTINGS} onClick={() => setCurrentView(AppView.SETTINGS)} />
         </nav>
     );
 
     const renderReader = () => {
         const currentItem = history.find(h => h.id === currentDocId);
+        const readingItem = getReadingItem();
+        const readingText = readingItem?.text ?? extractedText;
+        const translation = currentItem?.translations?.find(t => t.language === shownTranslation);
+        const readyChunks = narrationChunks.filter(c => c.status === 'ready').length;
+        const failedChunks = narrationChunks.filter(c => c.status === 'error');
+        const pendingChunks = narrationChunks.filter(c => c.status === 'pending').length;
+        const isGenerating = narrationChunks.some(c => c.status === 'generating');
+        const totalCachedAudio = Object.values<number>(audioUsage).reduce((sum, bytes) => sum + bytes, 0);
+        const activeSentence = narrationPosition && findSentenceAt(readingItem?.timingMap ?? [], narrationPosition);
+        const activeSection = activeSentence ? findSectionAt(readingItem?.sections ?? [], activeSentence.sentence.start) : null;
+        const activeWord = activeSentence && narrationPosition && audioUrl
+            ? estimateWordRange(readingText, activeSentence.sentence, (narrationPosition.offset - activeSentence.start) / (activeSentence.end - activeSentence.start))
+            : null;
 
         return (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fadeIn">
@@ -295,7 +1387,7 @@ export default function App() {
                         </div>
                         <div>
                             <h2 className="text-xl font-semibold mb-2">Upload Document</h2>
-                            <p className="text-slate-400 text-sm">Supports PDF, HTML, TXT (Images also work)</p>
+                            <p className="text-slate-400 text-sm">Supports PDF, EPUB, HTML, Markdown, TXT (Images also work)</p>
                         </div>
                         <input 
                             type="file" 
@@ -308,12 +1400,39 @@ export default function App() {
                             file:cursor-pointer hover:file:bg-blue-700
                             cursor-pointer"
                         />
+
+                        {/* Interrupted extractions of large PDFs */}
+                        {unfinishedIngestions.length > 0 && !procState.isLoading && (
+                            <div className="space-y-2 text-left">
+                                {unfinishedIngestions.map(job => {
+                                    const pagesDone = job.ranges.filter(r => job.parts[r.index]).reduce((sum, r) => sum + r.to - r.from + 1, 0);
+                                    return (
+                                        <div key={job.key} className="flex items-center justify-between gap-2 p-3 bg-amber-500/10 border border-amber-500/20 rounded-xl text-xs">
+                                            <div className="min-w-0">
+                                                <p className="text-amber-300 font-medium line-clamp-1">{job.fileName}</p>
+                                                <p className="text-slate-400">
+                                                    {pagesDone} of {job.pageCount} pages extracted. Select the same file again to resume.
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => handleDiscardIngestion(job.key)}
+                                                title="Discard partial extraction"
+                                                className="text-slate-500 hover:text-red-400 p-1 shrink-0"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
 
                     {procState.isLoading && (
                         <div className="flex items-center justify-center gap-3 text-blue-400 p-4 bg-blue-500/10 rounded-xl">
                             <Loader2 className="animate-spin" />
                             <span>{procState.status}</span>
+                            {renderCancelButton()}
                         </div>
                     )}
 
@@ -325,61 +1444,221 @@ export default function App() {
                                      <h3 className="font-bold text-slate-300">
                                          {currentItem?.fileName || "Document Preview"}
                                      </h3>
-                                     <span className="text-xs bg-slate-700 px-3 py-1 rounded-full text-blue-300 font-mono">
-                                        {detectedLang === 'es' ? '🇪🇸 Spanish' : detectedLang === 'en' ? '🇺🇸 English' : detectedLang}
-                                     </span>
-                                </div>
-                                <div className="max-h-60 overflow-y-auto pr-2 custom-scrollbar">
-                                    <p className="text-slate-300 text-sm whitespace-pre-wrap font-serif leading-relaxed">
-                                        {extractedText}
-                                    </p>
+                                     <div className="flex items-center gap-2">
+                                         {currentItem?.extractionMethod && (
+                                             <span
+                                                 title={currentItem.extractionMethod === 'gemini' ? 'Text read by Gemini' : 'Text parsed on this device'}
+                                                 className="text-xs bg-slate-700 px-3 py-1 rounded-full text-slate-400"
+                                             >
+                                                 {EXTRACTION_LABELS[currentItem.extractionMethod]}
+                                             </span>
+                                         )}
+                                         <span className="text-xs bg-slate-700 px-3 py-1 rounded-full text-blue-300 font-mono">
+                                            {detectedLang === 'es' ? '🇪🇸 Spanish' : detectedLang === 'en' ? '🇺🇸 English' : detectedLang}
+                                         </span>
+                                     </div>
                                 </div>
+                                {currentItem && (
+                                    <TranslationBar
+                                        key={currentItem.id}
+                                        language={currentItem.language}
+                                        translations={currentItem.translations ?? []}
+                                        shown={shownTranslation}
+                                        disabled={procState.isLoading}
+                                        onShow={handleShowTranslation}
+                                        onTranslate={handleTranslateDocument}
+                                        onDelete={handleDeleteTranslation}
+                                    />
+                                )}
+                                {translation ? (
+                                    <TranslationView
+                                        text={extractedText}
+                                        language={detectedLang}
+                                        translation={translation}
+                                        narrated={readingLanguage ? 'translation' : 'original'}
+                                        activeOffset={activeSentence?.sentence.start ?? null}
+                                        onNarrate={handleNarrateVersion}
+                                        onParagraphClick={handleSentenceClick}
+                                    />
+                                ) : (
+                                    <ReadAlongText
+                                        text={extractedText}
+                                        activeSentence={activeSentence?.sentence ?? null}
+                                        activeWord={activeWord}
+                                        highlights={currentItem?.highlights ?? []}
+                                        focus={previewFocus}
+                                        onSentenceClick={handleSentenceClick}
+                                        onHighlight={handleAddHighlight}
+                                    />
+                                )}
                             </div>
 
+                            {/* Table of Contents */}
+                            {currentItem && readingItem && (readingItem.sections?.length ?? 0) > 0 && (
+                                <TableOfContents
+                                    sections={readingItem.sections ?? []}
+                                    activeStart={activeSection?.start ?? null}
+                                    skippedFootnotes={currentItem.footnotes?.length ?? 0}
+                                    skippedHeaderFooterLines={currentItem.skippedHeaderFooterLines ?? 0}
+                                    onSelect={handleStartFromSection}
+                                />
+                            )}
+
                             {/* Voice Selection */}
-                            <div>
-                                <h4 className="text-sm font-semibold text-slate-500 uppercase mb-3">Select Voice</h4>
-                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                                    {VOICE_OPTIONS.map(voice => (
-                                        <button
-                                            key={voice.id}
-                                            onClick={() => handleReadAloud(voice.id)}
-                                            disabled={procState.isLoading}
-                                            className="group relative bg-slate-800 p-4 rounded-xl border border-slate-700 hover:border-blue-500 hover:bg-slate-750 transition-all text-left"
-                                        >
-                                            <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 text-blue-400 transition-opacity">
-                                                <Play size={20} fill="currentColor" />
-                                            </div>
-                                            <h3 className="font-semibold text-white group-hover:text-blue-400 transition-colors">{voice.name}</h3>
-                                            <p className="text-xs text-slate-400">{voice.desc}</p>
-                                        </button>
-                                    ))}
-                                </div>
-                            </div>
+                            <VoicePicker
+                                language={readingLanguage ?? detectedLang}
+                                favorites={settings.favoriteVoices}
+                                languageDefault={getDefaultVoice(readingLanguage ?? detectedLang)}
+                                disabled={procState.isLoading}
+                                onSelect={handleReadAloud}
+                                onToggleFavorite={handleToggleFavoriteVoice}
+                                onSetLanguageDefault={(voiceName) => handleSetLanguageVoice(readingLanguage ?? detectedLang, voiceName)}
+                            />
+
+                            {/* Style & Pronunciation */}
+                            {currentItem && (
+                                <NarrationStylePanel
+                                    style={currentItem.narrationStyle ?? DEFAULT_NARRATION_STYLE}
+                                    documentLexicon={currentItem.lexicon ?? []}
+                                    sharedLexicon={settings.lexicon}
+                                    disabled={procState.isLoading}
+                                    onChangeStyle={handleChangeNarrationStyle}
+                                    onChangeLexicon={handleChangeLexicon}
+                                />
+                            )}
+
+                            {/* Multi-speaker Cast, for the original only */}
+                            {currentItem && !readingLanguage && (
+                                <CastPanel
+                                    dialogue={currentItem.dialogue}
+                                    voices={currentItem.speakerVoices ?? {}}
+                                    catalogue={VOICE_CATALOGUE}
+                                    disabled={procState.isLoading}
+                                    onDetect={handleDetectDialogue}
+                                    onChangeVoice={handleChangeSpeakerVoice}
+                                    onRead={handleReadWithCast}
+                                />
+                            )}
+
+                            {showAudiobookExport && currentItem && (
+                                <AudiobookExportDialog
+                                    fileName={currentItem.fileName}
+                                    sectionCount={currentItem.sections?.length ?? 0}
+                                    bookmarkCount={currentItem.bookmarks.length}
+                                    missingParts={narrationChunks.length - readyChunks}
+                                    onExport={handleExportAudiobook}
+                                    onCancel={() => setShowAudiobookExport(false)}
+                                />
+                            )}
 
                             {/* Audio Player & Controls */}
-                            {audioUrl && (
+                            {narrationChunks.length > 0 && (
                                 <div className="bg-gradient-to-br from-slate-800 to-slate-900 p-6 rounded-2xl border border-blue-500/30 shadow-lg space-y-4">
                                     <div className="flex items-center justify-between">
                                         <h4 className="text-blue-400 font-semibold flex items-center gap-2">
                                             <Radio size={18} /> Now Playing
+                                            <span className="text-xs font-normal text-slate-500">
+                                                Part {currentChunk + 1} of {narrationChunks.length}
+                                            </span>
                                         </h4>
-                                        {currentItem?.lastPosition ? (
-                                             <span className="text-xs text-slate-500">
-                                                 Resumed from {formatTime(currentItem.lastPosition)}
-                                             </span>
-                                        ) : null}
+                                        <div className="flex items-center gap-3">
+                                            {readingItem?.lastPosition ? (
+                                                 <span className="text-xs text-slate-500">
+                                                     Resumed from {formatTime(readingItem.lastPosition)}
+                                                 </span>
+                                            ) : null}
+                                            <button
+                                                onClick={() => setShowAudiobookExport(true)}
+                                                disabled={!currentItem || isGenerating || procState.isLoading}
+                                                title="Export as an audiobook"
+                                                className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-white disabled:opacity-40 transition-colors"
+                                            >
+                                                <Download size={16} />
+                                            </button>
+                                        </div>
                                     </div>
                                     
-                                    <audio 
-                                        ref={audioRef}
-                                        controls 
-                                        autoPlay 
-                                        src={audioUrl} 
-                                        className="w-full accent-blue-500"
-                                        onPause={handleAudioPause}
-                                        onCanPlay={handleAudioLoaded}
+                                    {audioUrl ? (
+                                        <audio 
+                                            ref={audioRef}
+                                            controls 
+                                            autoPlay 
+                                            src={audioUrl} 
+                                            className="w-full accent-blue-500"
+                                            onPause={handleAudioPause}
+                                            onCanPlay={handleAudioLoaded}
+                                            onEnded={handleAudioEnded}
+                                            onTimeUpdate={handleAudioTimeUpdate}
+                                        />
+                                    ) : narrationChunks[currentChunk]?.status === 'error' ? (
+                                        <div className="flex items-center justify-between gap-2 text-sm text-red-400 bg-red-500/10 p-3 rounded-lg">
+                                            <span className="line-clamp-1">Part {currentChunk + 1} failed: {narrationChunks[currentChunk].error}</span>
+                                            <button
+                                                onClick={() => handleRetryChunk(currentChunk)}
+                                                className="flex items-center gap-1 hover:text-red-300 shrink-0"
+                                            >
+                                                <RotateCcw size={14} /> Retry
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center gap-2 text-sm text-slate-400 bg-slate-950/50 p-3 rounded-lg">
+                                            <Loader2 size={16} className="animate-spin" />
+                                            Preparing part {currentChunk + 1}...
+                                        </div>
+                                    )}
+
+                                    <TransportControls
+                                        sleepTimer={sleepTimer}
+                                        disabled={!audioUrl}
+                                        onSkip={handleSkip}
+                                        onSetSleepTimer={handleSetSleepTimer}
                                     />
+
+                                    {/* Chunk Progress */}
+                                    <div>
+                                        <div className="flex justify-between text-xs text-slate-500 mb-2">
+                                            <span>Narration progress</span>
+                                            <span>{readyChunks} / {narrationChunks.length} parts ready</span>
+                                        </div>
+                                        <div className="flex flex-wrap gap-1">
+                                            {narrationChunks.map(chunk => (
+                                                <button
+                                                    key={chunk.index}
+                                                    title={`Part ${chunk.index + 1}: ${chunk.status}`}
+                                                    disabled={chunk.status !== 'ready' && chunk.status !== 'error'}
+                                                    onClick={() => chunk.status === 'error' ? handleRetryChunk(chunk.index) : handleJumpToChunk(chunk.index)}
+                                                    className={`h-2 flex-1 min-w-[12px] rounded-full transition-colors ${
+                                                        chunk.status === 'ready' ? (chunk.index === currentChunk ? 'bg-blue-300' : 'bg-blue-500 hover:bg-blue-400') :
+                                                        chunk.status === 'generating' ? 'bg-blue-500/40 animate-pulse' :
+                                                        chunk.status === 'error' ? 'bg-red-500 hover:bg-red-400' : 'bg-slate-700'
+                                                    }`}
+                                                />
+                                            ))}
+                                        </div>
+                                        {pendingChunks > 0 && !isGenerating && (
+                                            <button
+                                                onClick={handleGenerateRemaining}
+                                                className="mt-3 flex items-center gap-2 text-xs text-blue-400 hover:text-blue-300"
+                                            >
+                                                <Play size={12} /> Generate remaining {pendingChunks} parts
+                                            </button>
+                                        )}
+                                        {failedChunks.length > 0 && (
+                                            <div className="mt-3 space-y-2">
+                                                {failedChunks.map(chunk => (
+                                                    <div key={chunk.index} className="flex items-center justify-between gap-2 text-xs bg-red-500/10 text-red-400 p-2 rounded-lg">
+                                                        <span className="line-clamp-1">Part {chunk.index + 1} failed: {chunk.error}</span>
+                                                        <button
+                                                            onClick={() => handleRetryChunk(chunk.index)}
+                                                            className="flex items-center gap-1 hover:text-red-300 shrink-0"
+                                                        >
+                                                            <RotateCcw size={12} /> Retry
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
                                     
                                     {/* Speed & Bookmarks Controls */}
                                     <div className="flex flex-wrap items-center justify-between gap-4 pt-2">
@@ -399,7 +1678,9 @@ export default function App() {
 
                                         <button 
                                             onClick={handleAddBookmark}
-                                            className="flex items-center gap-2 px-4 py-2 bg-blue-600/20 hover:bg-blue-600/30 text-blue-400 rounded-lg text-sm transition-colors"
+                                            disabled={readingLanguage !== null}
+                                            title={readingLanguage ? 'Bookmarks are added while reading the original' : undefined}
+                                            className="flex items-center gap-2 px-4 py-2 bg-blue-600/20 hover:bg-blue-600/30 text-blue-400 rounded-lg text-sm disabled:opacity-40 transition-colors"
                                         >
                                             <BookmarkIcon size={16} />
                                             Add Bookmark
@@ -409,24 +1690,13 @@ export default function App() {
                             )}
 
                             {/* Bookmarks List */}
-                            {currentItem && currentItem.bookmarks.length > 0 && (
-                                <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700">
-                                    <h4 className="text-sm font-semibold text-slate-500 uppercase mb-3 flex items-center gap-2">
-                                        <BookmarkIcon size={14} /> Bookmarks
-                                    </h4>
-                                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                                        {currentItem.bookmarks.map(bm => (
-                                            <button
-                                                key={bm.id}
-                                                onClick={() => handleJumpToBookmark(bm.time)}
-                                                className="flex items-center justify-between p-3 bg-slate-700/50 hover:bg-slate-700 rounded-lg text-left transition-colors group"
-                                            >
-                                                <span className="text-sm text-slate-300">{formatTime(bm.time)}</span>
-                                                <Play size={12} className="opacity-0 group-hover:opacity-100 text-blue-400" />
-                                            </button>
-                                        ))}
-                                    </div>
-                                </div>
+                            {currentItem && currentItem.bookmarks.length > 0 && !readingLanguage && (
+                                <BookmarkPanel
+                                    bookmarks={currentItem.bookmarks}
+                                    onJump={handleJumpToBookmark}
+                                    onUpdate={handleUpdateBookmark}
+                                    onDelete={handleDeleteBookmark}
+                                />
                             )}
                         </div>
                     )}
@@ -436,9 +1706,44 @@ export default function App() {
                 <div className="space-y-4">
                     <div className="bg-slate-800 rounded-2xl border border-slate-700 overflow-hidden flex flex-col h-[600px]">
                         <div className="p-4 border-b border-slate-700 bg-slate-800/50 backdrop-blur sticky top-0">
-                            <h3 className="font-semibold text-slate-200 flex items-center gap-2">
-                                <HistoryIcon size={18} /> Library History
-                            </h3>
+                            <div className="flex justify-between items-center">
+                                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                                    <HistoryIcon size={18} /> Library History
+                                </h3>
+                                <div className="flex items-center gap-1 text-slate-400">
+                                    <button
+                                        onClick={() => { setIsSelectingDocs(!isSelectingDocs); setSelectedDocIds([]); }}
+                                        title="Select documents to export"
+                                        className={`p-1.5 rounded-lg hover:bg-slate-700 hover:text-white transition-colors ${isSelectingDocs ? 'text-blue-400' : ''}`}
+                                    >
+                                        <CheckSquare size={16} />
+                                    </button>
+                                    <button
+                                        onClick={handleExportLibrary}
+                                        disabled={history.length === 0 || procState.isLoading}
+                                        title={selectedDocIds.length > 0 ? `Export ${selectedDocIds.length} selected` : 'Export library'}
+                                        className="p-1.5 rounded-lg hover:bg-slate-700 hover:text-white transition-colors disabled:opacity-40"
+                                    >
+                                        <Download size={16} />
+                                    </button>
+                                    <label title="Import library" className="p-1.5 rounded-lg hover:bg-slate-700 hover:text-white transition-colors cursor-pointer">
+                                        <Upload size={16} />
+                                        <input type="file" accept=".json,application/json" onChange={handleImportLibrary} className="hidden" />
+                                    </label>
+                                </div>
+                            </div>
+                            {isSelectingDocs && (
+                                <p className="text-[11px] text-blue-400 mt-1">
+                                    {selectedDocIds.length > 0 ? `${selectedDocIds.length} selected for export` : 'Select documents to export'}
+                                </p>
+                            )}
+                            <p className="text-[11px] text-slate-500 mt-1 flex items-center gap-1">
+                                <HardDrive size={10} />
+                                Cached audio: {formatBytes(totalCachedAudio)}
+                                {storageEstimate && storageEstimate.quota > 0 && (
+                                    <span> · {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used</span>
+                                )}
+                            </p>
                         </div>
                         <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
                             {history.length === 0 ? (
@@ -449,11 +1754,14 @@ export default function App() {
                                 history.map(item => (
                                     <div 
                                         key={item.id}
-                                        onClick={() => handleHistoryClick(item)}
+                                        onClick={() => isSelectingDocs ? toggleDocSelection(item.id) : handleHistoryClick(item)}
                                         className={`p-3 rounded-xl cursor-pointer transition-all border ${currentDocId === item.id ? 'bg-blue-600/10 border-blue-500/50' : 'bg-slate-700/30 border-transparent hover:bg-slate-700/50 hover:border-slate-600'}`}
                                     >
                                         <div className="flex justify-between items-start mb-1">
-                                            <h4 className={`text-sm font-medium line-clamp-1 ${currentDocId === item.id ? 'text-blue-300' : 'text-slate-300'}`}>
+                                            <h4 className={`text-sm font-medium line-clamp-1 flex items-center gap-2 ${currentDocId === item.id ? 'text-blue-300' : 'text-slate-300'}`}>
+                                                {isSelectingDocs && (selectedDocIds.includes(item.id)
+                                                    ? <CheckSquare size={14} className="text-blue-400 shrink-0" />
+                                                    : <Square size={14} className="text-slate-500 shrink-0" />)}
                                                 {item.fileName}
                                             </h4>
                                             <button 
@@ -465,11 +1773,22 @@ export default function App() {
                                         </div>
                                         <div className="flex justify-between items-center text-xs text-slate-500">
                                             <span>{new Date(item.uploadDate).toLocaleDateString()}</span>
-                                            {item.lastPosition > 0 && (
-                                                <span className="flex items-center gap-1 text-blue-400/80">
-                                                    <RotateCcw size={10} /> {formatTime(item.lastPosition)}
-                                                </span>
-                                            )}
+                                            <div className="flex items-center gap-2">
+                                                {audioUsage[item.id] > 0 && (
+                                                    <button
+                                                        onClick={(e) => handleClearCachedAudio(e, item.id)}
+                                                        title="Clear cached audio"
+                                                        className="flex items-center gap-1 hover:text-red-400"
+                                                    >
+                                                        <HardDrive size={10} /> {formatBytes(audioUsage[item.id])}
+                                                    </button>
+                                                )}
+                                                {item.lastPosition > 0 && (
+                                                    <span className="flex items-center gap-1 text-blue-400/80">
+                                                        <RotateCcw size={10} /> {formatTime(item.lastPosition)}
+                                                    </span>
+                                                )}
+                                            </div>
                                         </div>
                                         {item.bookmarks.length > 0 && (
                                             <div className="mt-2 pt-2 border-t border-slate-700/50 flex gap-1 flex-wrap">
@@ -486,40 +1805,86 @@ export default function App() {
                             )}
                         </div>
                     </div>
+
+                    {/* Sidebar: Annotations */}
+                    {currentItem && (currentItem.highlights?.length ?? 0) > 0 && !readingLanguage && (
+                        <AnnotationsPanel
+                            text={currentItem.text}
+                            highlights={currentItem.highlights ?? []}
+                            onJumpToText={(h) => setPreviewFocus({ offset: h.start })}
+                            onJumpToAudio={handleJumpToHighlightAudio}
+                            onUpdate={(id, updates) => updateHighlights(hs => hs.map(h => h.id === id ? { ...h, ...updates } : h))}
+                            onDelete={(id) => updateHighlights(hs => hs.filter(h => h.id !== id))}
+                            onExport={handleExportAnnotations}
+                        />
+                    )}
                 </div>
             </div>
         );
     };
 
-    const renderTranscribe = () => (
-        <div className="max-w-2xl mx-auto space-y-6 animate-fadeIn">
-            <div className="bg-slate-800 p-8 rounded-2xl border border-slate-700 text-center space-y-4">
-                <div className="w-16 h-16 bg-purple-500/10 rounded-full flex items-center justify-center mx-auto text-purple-400">
-                    <Mic size={32} />
-                </div>
-                <h2 className="text-xl font-semibold">Audio Transcription</h2>
-                <input 
-                    type="file" 
-                    accept="audio/*"
-                    onChange={handleAudioUpload}
-                    className="block w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-600 file:text-white file:cursor-pointer hover:file:bg-purple-700"
-                />
-            </div>
+    const renderTranscribe = () => {
+        const currentTranscript = transcripts.find(t => t.id === currentTranscriptId);
 
-            {procState.isLoading && (
-                <div className="text-center text-purple-400 flex justify-center gap-2">
-                    <Loader2 className="animate-spin" /> {procState.status}
-                </div>
-            )}
+        return (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fadeIn">
+                <div className="lg:col-span-2 space-y-6">
+                    <div className="bg-slate-800 p-8 rounded-2xl border border-slate-700 text-center space-y-4">
+                        <div className="w-16 h-16 bg-purple-500/10 rounded-full flex items-center justify-center mx-auto text-purple-400">
+                            <Mic size={32} />
+                        </div>
+                        <h2 className="text-xl font-semibold">Audio Transcription</h2>
+                        <input 
+                            type="file" 
+                            accept="audio/*"
+                            onChange={handleAudioUpload}
+                            disabled={procState.isLoading}
+                            className="block w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-purple-600 file:text-white file:cursor-pointer hover:file:bg-purple-700"
+                        />
+                        <p className="text-xs text-slate-500">Long recordings are transcribed in parts, and the transcript appears as each part is done.</p>
+                        <AudioRecorder disabled={procState.isLoading} onRecorded={handleRecorded} />
+                    </div>
+
+                    {procState.isLoading && (
+                        <div className="text-center text-purple-400 flex justify-center items-center gap-2">
+                            <Loader2 className="animate-spin" /> {procState.status}
+                            {renderCancelButton()}
+                        </div>
+                    )}
 
-            {transcription && (
-                <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700">
-                    <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">Transcript</h3>
-                    <p className="text-slate-200 leading-relaxed whitespace-pre-wrap">{transcription}</p>
+                    {currentTranscript && (
+                        <TranscriptView
+                            transcript={currentTranscript.transcript}
+                            audioUrl={transcriptAudioUrl}
+                            sourceName={currentTranscript.fileName}
+                            inProgress={transcribingId === currentTranscript.id}
+                            onRenameSpeaker={handleRenameSpeaker}
+                            onSendToReader={handleSendTranscriptToReader}
+                        />
+                    )}
+
+                    {currentTranscript && transcribingId !== currentTranscript.id && currentTranscript.transcript.segments.length > 0 && (
+                        <TranscriptTools
+                            key={currentTranscript.id}
+                            item={currentTranscript}
+                            disabled={procState.isLoading}
+                            onSummarize={handleSummarizeTranscript}
+                            onExtractActionItems={handleExtractActionItems}
+                            onExtractDecisions={handleExtractDecisions}
+                            onTranslate={handleTranslateTranscript}
+                        />
+                    )}
                 </div>
-            )}
-        </div>
-    );
+
+                <TranscriptLibrary
+                    items={transcripts}
+                    currentId={currentTranscriptId}
+                    onOpen={handleOpenTranscript}
+                    onDelete={handleDeleteTranscript}
+                />
+            </div>
+        );
+    };
 
     const renderAnalyze = () => (
         <div className="max-w-4xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8 animate-fadeIn">
@@ -544,7 +1909,7 @@ export default function App() {
                 )}
                 
                 {procState.isLoading && (
-                    <div className="text-green-400 flex gap-2 items-center"><Loader2 className="animate-spin"/> Analyzing...</div>
+                    <div className="text-green-400 flex gap-2 items-center"><Loader2 className="animate-spin"/> Analyzing... {renderCancelButton()}</div>
                 )}
                 
                 {analysisResult && (
@@ -593,6 +1958,7 @@ export default function App() {
                 {procState.isLoading ? <Loader2 className="animate-spin" /> : <ImageIcon size={20} />}
                 Generate Image
             </button>
+            {procState.isLoading && <div className="flex justify-center">{renderCancelButton()}</div>}
 
             {generatedImgBase64 && (
                 <div className="relative group">
@@ -635,6 +2001,22 @@ export default function App() {
                         </div>
                     )}
 
+                    {budgetPrompt && (
+                        <BudgetWarningDialog
+                            check={budgetPrompt.check}
+                            onContinue={() => resolveBudgetPrompt(true)}
+                            onCancel={() => resolveBudgetPrompt(false)}
+                        />
+                    )}
+
+                    {pendingImport && (
+                        <ImportConflictDialog
+                            conflicts={pendingImport.conflicts}
+                            onResolve={handleResolveImport}
+                            onCancel={() => setPendingImport(null)}
+                        />
+                    )}
+
                     {currentView === AppView.READER && renderReader()}
                     {currentView === AppView.TRANSCRIBE && renderTranscribe()}
                     {currentView === AppView.ANALYZE && renderAnalyze()}
@@ -644,6 +2026,18 @@ export default function App() {
                             <LiveSession />
                         </div>
                     )}
+                    {currentView === AppView.USAGE && (
+                        <UsageDashboard
+                            records={usageRecords}
+                            history={history}
+                            settings={settings}
+                            onUpdateSettings={handleUpdateSettings}
+                            onClear={handleClearUsage}
+                        />
+                    )}
+                    {currentView === AppView.SETTINGS && (
+                        <SettingsPanel settings={settings} voices={VOICE_CATALOGUE} onSave={handleSaveSettings} />
+                    )}
                 </main>
             </div>
 
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Highlighter, FileDown, Play, Trash2, MessageSquare, Check, X, Crosshair } from 'lucide-react';
+import { Highlight } from '../types';
+import { HIGHLIGHT_STYLES } from './ReadAlongText';
+
+interface AnnotationsPanelProps {
+    text: string;
+    highlights: Highlight[];
+    onJumpToText: (highlight: Highlight) => void;
+    onJumpToAudio: (highlight: Highlight) => void;
+    onUpdate: (id: string, updates: Partial<Highlight>) => void;
+    onDelete: (id: string) => void;
+    onExport: () => void;
+}
+
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+    text,
+    highlights,
+    onJumpToText,
+    onJumpToAudio,
+    onUpdate,
+    onDelete,
+    onExport
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftNote, setDraftNote] = useState('');
+    const sorted = [...highlights].sort((a, b) => a.start - b.start);
+
+    const saveNote = () => {
+        if (!editingId) return;
+        onUpdate(editingId, { note: draftNote.trim() || undefined });
+        setEditingId(null);
+    };
+
+    return (
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 overflow-hidden flex flex-col max-h-[500px]">
+            <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <Highlighter size={18} /> Annotations
+                    <span className="text-xs font-normal text-slate-500">{highlights.length}</span>
+                </h3>
+                <button
+                    onClick={onExport}
+                    title="Export as Markdown"
+                    className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+                >
+                    <FileDown size={16} />
+                </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                {sorted.map(h => (
+                    <div key={h.id} className="p-3 bg-slate-700/30 rounded-xl group">
+                        <div className="flex gap-2">
+                            <span className={`w-1 rounded-full shrink-0 ${HIGHLIGHT_STYLES[h.color].swatch}`} />
+                            <p
+                                onClick={() => onJumpToText(h)}
+                                className="text-xs text-slate-300 font-serif line-clamp-3 cursor-pointer hover:text-white"
+                            >
+                                {text.slice(h.start, h.end)}
+                            </p>
+                        </div>
+
+                        {editingId === h.id ? (
+                            <div className="mt-2 space-y-1">
+                                <textarea
+                                    value={draftNote}
+                                    onChange={(e) => setDraftNote(e.target.value)}
+                                    placeholder="Add a note..."
+                                    autoFocus
+                                    className="w-full h-16 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+                                />
+                                <div className="flex justify-end gap-1">
+                                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-white"><X size={14} /></button>
+                                    <button onClick={saveNote} className="p-1 text-blue-400 hover:text-blue-300"><Check size={14} /></button>
+                                </div>
+                            </div>
+                        ) : h.note && (
+                            <p className="mt-2 text-xs text-slate-400 whitespace-pre-wrap">{h.note}</p>
+                        )}
+
+                        <div className="mt-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity text-slate-400">
+                            <button onClick={() => onJumpToText(h)} title="Show in text" className="p-1 hover:text-white"><Crosshair size={12} /></button>
+                            <button onClick={() => onJumpToAudio(h)} title="Play from here" className="p-1 hover:text-blue-400"><Play size={12} /></button>
+                            <button
+                                onClick={() => { setEditingId(h.id); setDraftNote(h.note ?? ''); }}
+                                title="Edit note"
+                                className="p-1 hover:text-white"
+                            >
+                                <MessageSquare size={12} />
+                            </button>
+                            <button onClick={() => onDelete(h.id)} title="Delete highlight" className="p-1 hover:text-red-400 ml-auto"><Trash2 size={12} /></button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { formatTime } from '../services/utils';
+
+interface AudioRecorderProps {
+    disabled: boolean;
+    onRecorded: (audio: Blob) => void;
+}
+
+// Records from the microphone until stopped. Audio is collected every
+// second, so long recordings don't wait for one huge buffer at the end.
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ disabled, onRecorded }) => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [elapsed, setElapsed] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+
+    // Stop the microphone if the view closes mid-recording
+    useEffect(() => () => {
+        const recorder = recorderRef.current;
+        if (!recorder) return;
+        recorder.ondataavailable = null;
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        recorder.stream.getTracks().forEach(track => track.stop());
+    }, []);
+
+    useEffect(() => {
+        if (!isRecording) return;
+        const startedAt = Date.now();
+        const timer = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 500);
+        return () => clearInterval(timer);
+    }, [isRecording]);
+
+    const startRecording = async () => {
+        setError(null);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const recorder = new MediaRecorder(stream);
+            const parts: Blob[] = [];
+            recorder.ondataavailable = (e) => {
+                if (e.data.size > 0) parts.push(e.data);
+            };
+            recorder.onstop = () => {
+                stream.getTracks().forEach(track => track.stop());
+                recorderRef.current = null;
+                setIsRecording(false);
+                if (parts.length > 0) onRecorded(new Blob(parts, { type: recorder.mimeType || 'audio/webm' }));
+            };
+            recorder.start(1000);
+            recorderRef.current = recorder;
+            setElapsed(0);
+            setIsRecording(true);
+        } catch (err: any) {
+            setError(err.name === 'NotAllowedError' ? 'Microphone access was denied.' : `Could not start recording: ${err.message}`);
+        }
+    };
+
+    const stopRecording = () => {
+        recorderRef.current?.stop();
+    };
+
+    return (
+        <div className="space-y-2">
+            {isRecording ? (
+                <button
+                    onClick={stopRecording}
+                    className="flex items-center gap-2 mx-auto px-6 py-2 rounded-full bg-red-600 hover:bg-red-500 text-white text-sm font-semibold transition-colors"
+                >
+                    <Square size={14} className="fill-current" />
+                    Stop recording
+                    <span className="font-mono text-red-100">{formatTime(elapsed)}</span>
+                </button>
+            ) : (
+                <button
+                    onClick={startRecording}
+                    disabled={disabled}
+                    className="flex items-center gap-2 mx-auto px-6 py-2 rounded-full bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold disabled:opacity-50 transition-colors"
+                >
+                    <Mic size={14} />
+                    Record from microphone
+                </button>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default AudioRecorder;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Headphones } from 'lucide-react';
+import { AudiobookFormat, AudiobookOptions, ChapterSource } from '../services/audiobook';
+
+interface AudiobookExportDialogProps {
+    fileName: string;
+    sectionCount: number;
+    bookmarkCount: number;
+    missingParts: number; // Parts that will be generated before encoding
+    onExport: (options: AudiobookOptions) => void;
+    onCancel: () => void;
+}
+
+const FORMATS: { value: AudiobookFormat; label: string; hint: string }[] = [
+    { value: 'mp3', label: 'MP3', hint: 'Small, plays everywhere' },
+    { value: 'wav', label: 'WAV', hint: 'Lossless, about 10x larger' },
+];
+
+const AudiobookExportDialog: React.FC<AudiobookExportDialogProps> = ({
+    fileName,
+    sectionCount,
+    bookmarkCount,
+    missingParts,
+    onExport,
+    onCancel
+}) => {
+    const [format, setFormat] = useState<AudiobookFormat>('mp3');
+    const [chapters, setChapters] = useState<ChapterSource>(sectionCount > 0 ? 'sections' : bookmarkCount > 0 ? 'bookmarks' : 'none');
+    const [splitChapters, setSplitChapters] = useState(false);
+
+    const chapterSources: { value: ChapterSource; label: string; disabled: boolean }[] = [
+        { value: 'sections', label: 'Chapters', disabled: sectionCount === 0 },
+        { value: 'bookmarks', label: `Bookmarks (${bookmarkCount})`, disabled: bookmarkCount === 0 },
+        { value: 'none', label: 'No markers', disabled: false },
+    ];
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+            <div className="w-full max-w-md bg-slate-800 rounded-2xl border border-slate-700 shadow-2xl p-6 space-y-4">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <Headphones size={18} className="text-blue-400" /> Export Audiobook
+                </h3>
+                <p className="text-sm text-slate-400 line-clamp-2">{fileName}</p>
+
+                <div className="grid grid-cols-2 gap-2">
+                    {FORMATS.map(option => (
+                        <button
+                            key={option.value}
+                            onClick={() => setFormat(option.value)}
+                            className={`p-3 rounded-xl border text-left transition-all ${format === option.value ? 'bg-blue-600/20 border-blue-500' : 'bg-slate-900 border-slate-700 hover:border-slate-500'}`}
+                        >
+                            <span className="block text-sm font-semibold text-slate-200">{option.label}</span>
+                            <span className="block text-[11px] text-slate-400">{option.hint}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="space-y-2">
+                    <span className="text-xs font-semibold text-slate-500 uppercase">Markers from</span>
+                    <div className="flex gap-2">
+                        {chapterSources.map(source => (
+                            <button
+                                key={source.value}
+                                onClick={() => setChapters(source.value)}
+                                disabled={source.disabled}
+                                className={`flex-1 py-1.5 rounded-lg text-xs border transition-colors disabled:opacity-40 ${chapters === source.value ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-white'}`}
+                            >
+                                {source.label}
+                            </button>
+                        ))}
+                    </div>
+                    <label className={`flex items-center gap-2 text-sm ${chapters === 'none' ? 'text-slate-600' : 'text-slate-300'}`}>
+                        <input
+                            type="checkbox"
+                            checked={splitChapters && chapters !== 'none'}
+                            disabled={chapters === 'none'}
+                            onChange={(e) => setSplitChapters(e.target.checked)}
+                            className="accent-blue-500"
+                        />
+                        One file per chapter (zipped)
+                    </label>
+                </div>
+
+                {missingParts > 0 && (
+                    <p className="text-xs text-amber-400">
+                        {missingParts} parts have no audio yet and will be generated first.
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onExport({ format, chapters, splitChapters: splitChapters && chapters !== 'none' })}
+                        className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                    >
+                        Export
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AudiobookExportDialog;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Bookmark as BookmarkIcon, Play, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Bookmark } from '../types';
+import { formatTime } from '../services/utils';
+
+interface BookmarkPanelProps {
+    bookmarks: Bookmark[];
+    onJump: (bookmark: Bookmark) => void;
+    onUpdate: (id: string, updates: Partial<Bookmark>) => void;
+    onDelete: (id: string) => void;
+}
+
+const BookmarkPanel: React.FC<BookmarkPanelProps> = ({ bookmarks, onJump, onUpdate, onDelete }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftLabel, setDraftLabel] = useState('');
+    const [draftNote, setDraftNote] = useState('');
+
+    const startEditing = (bookmark: Bookmark) => {
+        setEditingId(bookmark.id);
+        setDraftLabel(bookmark.label);
+        setDraftNote(bookmark.note ?? '');
+    };
+
+    const saveEditing = () => {
+        if (!editingId) return;
+        onUpdate(editingId, { label: draftLabel.trim() || 'Untitled bookmark', note: draftNote.trim() || undefined });
+        setEditingId(null);
+    };
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700">
+            <h4 className="text-sm font-semibold text-slate-500 uppercase mb-3 flex items-center gap-2">
+                <BookmarkIcon size={14} /> Bookmarks
+            </h4>
+            <div className="space-y-2">
+                {bookmarks.map(bm => editingId === bm.id ? (
+                    <div key={bm.id} className="p-3 bg-slate-700/50 rounded-lg space-y-2">
+                        <input
+                            value={draftLabel}
+                            onChange={(e) => setDraftLabel(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+                            placeholder="Bookmark name"
+                            autoFocus
+                            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                        />
+                        <textarea
+                            value={draftNote}
+                            onChange={(e) => setDraftNote(e.target.value)}
+                            placeholder="Add a note..."
+                            className="w-full h-20 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:text-white">
+                                <X size={16} />
+                            </button>
+                            <button onClick={saveEditing} className="p-1.5 text-blue-400 hover:text-blue-300">
+                                <Check size={16} />
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div key={bm.id} className="p-3 bg-slate-700/50 hover:bg-slate-700 rounded-lg transition-colors group">
+                        <div className="flex items-center justify-between gap-2">
+                            <button onClick={() => onJump(bm)} className="flex items-center gap-2 text-left min-w-0">
+                                <Play size={12} className="text-blue-400 shrink-0" />
+                                <span className="text-sm text-slate-200 line-clamp-1">{bm.label}</span>
+                                <span className="text-xs font-mono text-slate-500 shrink-0">{formatTime(bm.time)}</span>
+                            </button>
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => startEditing(bm)} title="Rename or add a note" className="p-1 text-slate-400 hover:text-white">
+                                    <Pencil size={12} />
+                                </button>
+                                <button onClick={() => onDelete(bm.id)} title="Delete bookmark" className="p-1 text-slate-400 hover:text-red-400">
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        </div>
+                        {bm.snippet && (
+                            <p className="mt-1 text-xs text-slate-400 font-serif italic line-clamp-2">"{bm.snippet}"</p>
+                        )}
+                        {bm.note && (
+                            <p className="mt-1 text-xs text-slate-300 whitespace-pre-wrap">{bm.note}</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default BookmarkPanel;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { BudgetCheck } from '../services/usage';
+import { formatCost } from './UsageDashboard';
+
+interface BudgetWarningDialogProps {
+    check: BudgetCheck;
+    onContinue: () => void;
+    onCancel: () => void;
+}
+
+const BudgetWarningDialog: React.FC<BudgetWarningDialogProps> = ({ check, onContinue, onCancel }) => (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+        <div className="w-full max-w-md bg-slate-800 rounded-2xl border border-slate-700 shadow-2xl p-6 space-y-4">
+            <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                <AlertTriangle size={18} className="text-amber-400" /> Monthly Budget
+            </h3>
+            <p className="text-sm text-slate-400">
+                You have spent about {formatCost(check.spent)} of your {formatCost(check.budget)} budget this month.
+                {check.estimate > 0 && <> This request usually costs about {formatCost(check.estimate)}.</>}
+            </p>
+            <p className="text-sm text-slate-400">
+                Continuing allows going over the budget for the rest of the month.
+            </p>
+            <div className="flex justify-end gap-2 pt-2">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                >
+                    Stop
+                </button>
+                <button
+                    onClick={onContinue}
+                    className="px-4 py-2 rounded-lg text-sm font-semibold bg-amber-600 hover:bg-amber-500 text-white transition-colors"
+                >
+                    Continue anyway
+                </button>
+            </div>
+        </div>
+    </div>
+);
+
+export default BudgetWarningDialog;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Users, Search, Play, RefreshCw } from 'lucide-react';
+import { DialogueSpan, VoiceOption } from '../types';
+import { NARRATOR, listCharacters } from '../services/dialogue';
+
+interface CastPanelProps {
+    dialogue?: DialogueSpan[]; // Unset until dialogue has been detected
+    voices: Record<string, string>; // Gemini voice by character, including the narrator
+    catalogue: VoiceOption[];
+    disabled: boolean;
+    onDetect: () => void;
+    onChangeVoice: (speaker: string, voiceName: string) => void;
+    onRead: () => void;
+}
+
+const CastPanel: React.FC<CastPanelProps> = ({
+    dialogue,
+    voices,
+    catalogue,
+    disabled,
+    onDetect,
+    onChangeVoice,
+    onRead
+}) => {
+    const characters = dialogue ? listCharacters(dialogue) : null;
+    const countLines = (character: string) => dialogue?.filter(span => span.speaker === character).length ?? 0;
+
+    const renderVoiceSelect = (speaker: string) => (
+        <select
+            value={voices[speaker] ?? ''}
+            onChange={(e) => onChangeVoice(speaker, e.target.value)}
+            disabled={disabled}
+            className="w-56 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none disabled:opacity-50"
+        >
+            {catalogue.map(voice => (
+                <option key={voice.id} value={voice.geminiVoiceName}>{voice.name} ({voice.description})</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-slate-500 uppercase flex items-center gap-2">
+                    <Users size={14} /> Cast
+                </h4>
+                <button
+                    onClick={onDetect}
+                    disabled={disabled}
+                    title={characters ? 'Detect the characters again' : 'Find the dialogue and who speaks it'}
+                    className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+                >
+                    {characters ? <><RefreshCw size={12} /> Detect again</> : <><Search size={12} /> Detect characters</>}
+                </button>
+            </div>
+
+            {!characters ? (
+                <p className="text-xs text-slate-500">
+                    For novels with dialogue and for plays: give each character their own voice.
+                </p>
+            ) : characters.length === 0 ? (
+                <p className="text-xs text-slate-500">No dialogue was found in this document.</p>
+            ) : (
+                <>
+                    <div className="max-h-60 overflow-y-auto pr-2 space-y-2 custom-scrollbar">
+                        <label className="flex items-center justify-between gap-3">
+                            <span className="text-sm text-slate-300 font-medium">{NARRATOR}</span>
+                            {renderVoiceSelect(NARRATOR)}
+                        </label>
+                        {characters.map(character => (
+                            <label key={character} className="flex items-center justify-between gap-3">
+                                <span className="text-sm text-slate-300 min-w-0 truncate">
+                                    {character}
+                                    <span className="ml-2 text-[10px] text-slate-500">{countLines(character)} lines</span>
+                                </span>
+                                {renderVoiceSelect(character)}
+                            </label>
+                        ))}
+                    </div>
+                    <button
+                        onClick={onRead}
+                        disabled={disabled}
+                        className="mt-4 w-full flex items-center justify-center gap-2 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-colors"
+                    >
+                        <Play size={14} fill="currentColor" /> Read with cast
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CastPanel;
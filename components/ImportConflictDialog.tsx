@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ConflictChoice, ImportConflict } from '../services/libraryArchive';
+
+interface ImportConflictDialogProps {
+    conflicts: ImportConflict[];
+    onResolve: (choices: Record<string, ConflictChoice>) => void;
+    onCancel: () => void;
+}
+
+const CHOICES: { value: ConflictChoice; label: string }[] = [
+    { value: 'merge', label: 'Merge bookmarks' },
+    { value: 'keep', label: 'Keep mine' },
+    { value: 'replace', label: 'Use imported' },
+];
+
+const ImportConflictDialog: React.FC<ImportConflictDialogProps> = ({ conflicts, onResolve, onCancel }) => {
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+        () => Object.fromEntries(conflicts.map(c => [c.local.id, 'merge' as ConflictChoice]))
+    );
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+            <div className="w-full max-w-lg bg-slate-800 rounded-2xl border border-slate-700 shadow-2xl p-6 space-y-4">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <AlertTriangle size={18} className="text-amber-400" /> Import Conflicts
+                </h3>
+                <p className="text-sm text-slate-400">
+                    These documents are already in your library with different bookmarks. Choose which version to keep.
+                </p>
+
+                <div className="max-h-80 overflow-y-auto space-y-3 pr-1 custom-scrollbar">
+                    {conflicts.map(({ local, imported }) => (
+                        <div key={local.id} className="p-3 bg-slate-700/30 rounded-xl space-y-2">
+                            <div className="flex justify-between items-baseline gap-2">
+                                <h4 className="text-sm font-medium text-slate-300 line-clamp-1">{local.fileName}</h4>
+                                <span className="text-[11px] text-slate-500 shrink-0">
+                                    Yours: {local.bookmarks.length} · Imported: {imported.bookmarks?.length ?? 0} bookmarks
+                                </span>
+                            </div>
+                            <div className="flex gap-1">
+                                {CHOICES.map(choice => (
+                                    <button
+                                        key={choice.value}
+                                        onClick={() => setChoices(prev => ({ ...prev, [local.id]: choice.value }))}
+                                        className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors border ${choices[local.id] === choice.value ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                    >
+                                        {choice.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                    >
+                        Skip these
+                    </button>
+                    <button
+                        onClick={() => onResolve(choices)}
+                        className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportConflictDialog;
@@ -1,31 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Mic, MicOff, Video, VideoOff, XCircle, Loader2, Volume2 } from 'lucide-react';
 import { getLiveClient } from '../services/geminiService';
+import { getModel } from '../services/settings';
+import { checkBudget, recordUsage } from '../services/usage';
 import { Modality, LiveServerMessage } from '@google/genai';
-import { base64ToUint8Array, arrayBufferToBase64 } from '../services/utils';
-
-// Helper for PCM Blob creation
-function createPcmBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-        int16[i] = data[i] * 32768;
-    }
-    const uint8 = new Uint8Array(int16.buffer);
-    const binary = String.fromCharCode.apply(null, Array.from(uint8));
-    const base64 = btoa(binary);
-    
-    // We construct a specific blob that the API expects or we handle base64 manually
-    // But the Live API example shows sending a Blob with specific mimetype
-    // Actually, in the official examples, we send the blob directly via the SDK which handles it.
-    // However, the prompt's provided snippet `createBlob` returns { data: base64, mimeType }
-    
-    return {
-        // @ts-ignore - The SDK types might expect a real Blob but the example returns this object structure
-        data: base64, 
-        mimeType: 'audio/pcm;rate=16000'
-    } as any;
-}
+import { base64ToUint8Array, arrayBufferToBase64, decodeSpeechAudio, float32To16BitPCM, pcm16ToFloat32 } from '../services/utils';
 
 const LiveSession: React.FC = () => {
     const [isConnected, setIsConnected] = useState(false);
@@ -43,12 +22,30 @@ const LiveSession: React.FC = () => {
     const nextStartTimeRef = useRef<number>(0);
     const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
 
+    // Usage of the open session, recorded once when it ends
+    const sessionUsageRef = useRef<{ model: string; openedAt: number; inputTokens: number; outputTokens: number } | null>(null);
+
     const addLog = (msg: string) => setLogs(prev => [msg, ...prev].slice(0, 5));
 
+    const recordSessionUsage = () => {
+        const usage = sessionUsageRef.current;
+        if (!usage) return;
+        sessionUsageRef.current = null;
+        recordUsage({
+            feature: 'live',
+            model: usage.model,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            characters: 0,
+            seconds: (Date.now() - usage.openedAt) / 1000,
+        });
+    };
+
     const startSession = async () => {
         try {
             setStatus('Connecting...');
             const ai = getLiveClient();
+            await checkBudget('live');
             
             // Setup Output Audio
             const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -67,7 +64,10 @@ const LiveSession: React.FC = () => {
             scriptProcessor.onaudioprocess = (e) => {
                 if (isMuted) return;
                 const inputData = e.inputBuffer.getChannelData(0);
-                const pcmData = createPcmBlob(inputData);
+                const pcmData = {
+                    data: arrayBufferToBase64(float32To16BitPCM(inputData)),
+                    mimeType: `audio/pcm;rate=${inputCtx.sampleRate}`
+                };
                 
                 if (sessionPromiseRef.current) {
                     sessionPromiseRef.current.then(session => {
@@ -79,27 +79,29 @@ const LiveSession: React.FC = () => {
             source.connect(scriptProcessor);
             scriptProcessor.connect(inputCtx.destination);
 
+            const model = getModel('live');
             const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+                model,
                 callbacks: {
                     onopen: () => {
+                        sessionUsageRef.current = { model, openedAt: Date.now(), inputTokens: 0, outputTokens: 0 };
                         setIsConnected(true);
-                        setStatus('Connected (Gemini 2.5)');
+                        setStatus(`Connected (${model})`);
                         addLog('Session opened');
                     },
                     onmessage: async (message: LiveServerMessage) => {
+                        if (message.usageMetadata && sessionUsageRef.current) {
+                            sessionUsageRef.current.inputTokens += message.usageMetadata.promptTokenCount ?? 0;
+                            sessionUsageRef.current.outputTokens += message.usageMetadata.responseTokenCount ?? 0;
+                        }
+
                         // Handle Audio Output
-                        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-                        if (base64Audio) {
-                            const bytes = base64ToUint8Array(base64Audio);
-                            
-                            // Decode
-                            const dataInt16 = new Int16Array(bytes.buffer);
-                            const buffer = outputCtx.createBuffer(1, dataInt16.length, 24000);
-                            const channelData = buffer.getChannelData(0);
-                            for (let i = 0; i < dataInt16.length; i++) {
-                                channelData[i] = dataInt16[i] / 32768.0;
-                            }
+                        const audioPart = message.serverContent?.modelTurn?.parts?.[0]?.inlineData;
+                        if (audioPart?.data) {
+                            // Raw PCM; the rate comes from the MIME type
+                            const audio = decodeSpeechAudio(base64ToUint8Array(audioPart.data), audioPart.mimeType);
+                            const buffer = outputCtx.createBuffer(1, audio.samples.length, audio.sampleRate);
+                            buffer.copyToChannel(pcm16ToFloat32(audio.samples), 0);
 
                             const src = outputCtx.createBufferSource();
                             src.buffer = buffer;
@@ -126,6 +128,7 @@ const LiveSession: React.FC = () => {
                         }
                     },
                     onclose: () => {
+                        recordSessionUsage();
                         setIsConnected(false);
                         setStatus('Disconnected');
                     },
@@ -153,6 +156,7 @@ const LiveSession: React.FC = () => {
     };
 
     const stopSession = () => {
+        recordSessionUsage();
         if (sessionPromiseRef.current) {
             sessionPromiseRef.current.then(s => s.close()); // Close session
         }
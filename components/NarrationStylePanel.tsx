@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Wand2, Gauge, SpellCheck, Globe, FileText, Plus, X, Upload, Download } from 'lucide-react';
+import { LexiconEntry, NarrationPace, NarrationStyle } from '../types';
+import { STYLE_PRESETS, mergeLexicons, parseLexicon, serializeLexicon } from '../services/speechStyle';
+import { downloadBlob } from '../services/utils';
+
+export type LexiconScope = 'document' | 'shared';
+
+interface NarrationStylePanelProps {
+    style: NarrationStyle;
+    documentLexicon: LexiconEntry[];
+    sharedLexicon: LexiconEntry[]; // Used by every document
+    disabled: boolean;
+    onChangeStyle: (style: NarrationStyle) => void;
+    onChangeLexicon: (scope: LexiconScope, entries: LexiconEntry[]) => void;
+}
+
+const PACES: { value: NarrationPace; label: string }[] = [
+    { value: 'slow', label: 'Slow' },
+    { value: 'normal', label: 'Normal' },
+    { value: 'fast', label: 'Fast' },
+];
+
+const sameTerm = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Adds an entry to a lexicon, replacing any entry for the same term.
+const withEntry = (entries: LexiconEntry[], entry: LexiconEntry) => [...entries.filter(e => !sameTerm(e.term, entry.term)), entry];
+
+const NarrationStylePanel: React.FC<NarrationStylePanelProps> = ({
+    style,
+    documentLexicon,
+    sharedLexicon,
+    disabled,
+    onChangeStyle,
+    onChangeLexicon
+}) => {
+    // Typed instructions are saved when the field loses focus, not per keystroke
+    const [instruction, setInstruction] = useState(style.instruction);
+    const [term, setTerm] = useState('');
+    const [pronunciation, setPronunciation] = useState('');
+    const [shareNew, setShareNew] = useState(false);
+    const [lexiconError, setLexiconError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => setInstruction(style.instruction), [style.instruction]);
+
+    const commitInstruction = (value: string) => {
+        if (value.trim() !== style.instruction) onChangeStyle({ ...style, instruction: value.trim() });
+    };
+
+    const handleAddEntry = () => {
+        if (!term.trim() || !pronunciation.trim()) return;
+        const entry: LexiconEntry = { id: crypto.randomUUID(), term: term.trim(), pronunciation: pronunciation.trim() };
+        if (shareNew) onChangeLexicon('shared', withEntry(sharedLexicon, entry));
+        else onChangeLexicon('document', withEntry(documentLexicon, entry));
+        setTerm('');
+        setPronunciation('');
+    };
+
+    const handleRemoveEntry = (scope: LexiconScope, id: string) => {
+        const entries = scope === 'shared' ? sharedLexicon : documentLexicon;
+        onChangeLexicon(scope, entries.filter(e => e.id !== id));
+    };
+
+    // Moves an entry between this document and the shared lexicon
+    const handleToggleScope = (scope: LexiconScope, entry: LexiconEntry) => {
+        if (scope === 'shared') {
+            onChangeLexicon('shared', sharedLexicon.filter(e => e.id !== entry.id));
+            onChangeLexicon('document', withEntry(documentLexicon, entry));
+        } else {
+            onChangeLexicon('document', documentLexicon.filter(e => e.id !== entry.id));
+            onChangeLexicon('shared', withEntry(sharedLexicon, entry));
+        }
+    };
+
+    const handleExport = () => {
+        const lexicon = mergeLexicons(sharedLexicon, documentLexicon);
+        downloadBlob(new Blob([serializeLexicon(lexicon)], { type: 'application/json' }), 'pronunciations.json');
+    };
+
+    // Imported entries join the shared lexicon, so every document gets them
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseLexicon(await file.text());
+            onChangeLexicon('shared', imported.reduce(withEntry, sharedLexicon));
+            setLexiconError(null);
+        } catch (err: any) {
+            setLexiconError(err.message);
+        }
+    };
+
+    const renderEntry = (scope: LexiconScope, entry: LexiconEntry, overridden: boolean) => (
+        <div key={entry.id} className="flex items-center gap-2 text-xs group">
+            <span className={`font-medium text-slate-200 truncate ${overridden ? 'line-through opacity-50' : ''}`}>{entry.term}</span>
+            <span className="text-slate-500">→</span>
+            <span className={`flex-1 text-slate-400 truncate ${overridden ? 'line-through opacity-50' : ''}`}>{entry.pronunciation}</span>
+            <button
+                onClick={() => handleToggleScope(scope, entry)}
+                title={scope === 'shared' ? 'Used by all documents. Click to keep it for this document only.' : 'This document only. Click to use it for all documents.'}
+                className="p-1 text-slate-500 hover:text-blue-400"
+            >
+                {scope === 'shared' ? <Globe size={12} /> : <FileText size={12} />}
+            </button>
+            <button
+                onClick={() => handleRemoveEntry(scope, entry.id)}
+                title="Remove"
+                className="p-1 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+                <X size={12} />
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-4">
+            <h4 className="text-sm font-semibold text-slate-500 uppercase flex items-center gap-2">
+                <Wand2 size={14} /> Narration Style
+            </h4>
+
+            <div className="space-y-2">
+                <input
+                    type="text"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onBlur={() => commitInstruction(instruction)}
+                    onKeyDown={(e) => e.key === 'Enter' && commitInstruction(instruction)}
+                    disabled={disabled}
+                    placeholder="Speaking style, e.g. calm audiobook"
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:opacity-50"
+                />
+                <div className="flex flex-wrap gap-1.5">
+                    {STYLE_PRESETS.map(preset => (
+                        <button
+                            key={preset}
+                            onClick={() => onChangeStyle({ ...style, instruction: style.instruction === preset ? '' : preset })}
+                            disabled={disabled}
+                            className={`px-2 py-0.5 rounded-full text-[11px] border transition-colors disabled:opacity-50 ${style.instruction === preset ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                        >
+                            {preset}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+                <span className="text-xs text-slate-400 flex items-center gap-1"><Gauge size={12} /> Pace</span>
+                <div className="flex gap-1">
+                    {PACES.map(pace => (
+                        <button
+                            key={pace.value}
+                            onClick={() => onChangeStyle({ ...style, pace: pace.value })}
+                            disabled={disabled}
+                            className={`px-3 py-1 rounded-lg text-xs transition-colors disabled:opacity-50 ${style.pace === pace.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {pace.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="pt-3 border-t border-slate-700/50 space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-slate-400 flex items-center gap-1"><SpellCheck size={12} /> Pronunciations</span>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => importInputRef.current?.click()} title="Import a lexicon" className="p-1 text-slate-500 hover:text-white">
+                            <Upload size={12} />
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            disabled={documentLexicon.length + sharedLexicon.length === 0}
+                            title="Export the lexicon"
+                            className="p-1 text-slate-500 hover:text-white disabled:opacity-40"
+                        >
+                            <Download size={12} />
+                        </button>
+                        <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                    </div>
+                </div>
+                <div className="max-h-40 overflow-y-auto pr-2 space-y-1 custom-scrollbar">
+                    {documentLexicon.map(entry => renderEntry('document', entry, false))}
+                    {sharedLexicon.map(entry => renderEntry('shared', entry, documentLexicon.some(d => sameTerm(d.term, entry.term))))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={term}
+                        onChange={(e) => setTerm(e.target.value)}
+                        placeholder="Word"
+                        className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                        type="text"
+                        value={pronunciation}
+                        onChange={(e) => setPronunciation(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddEntry()}
+                        placeholder="Say it as"
+                        className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button
+                        onClick={() => setShareNew(!shareNew)}
+                        title={shareNew ? 'Adding for all documents' : 'Adding for this document only'}
+                        className={`p-1 ${shareNew ? 'text-blue-400' : 'text-slate-500 hover:text-white'}`}
+                    >
+                        {shareNew ? <Globe size={14} /> : <FileText size={14} />}
+                    </button>
+                    <button
+                        onClick={handleAddEntry}
+                        disabled={!term.trim() || !pronunciation.trim()}
+                        title="Add pronunciation"
+                        className="p-1 text-slate-400 hover:text-white disabled:opacity-40"
+                    >
+                        <Plus size={14} />
+                    </button>
+                </div>
+                <p className="text-[11px] text-slate-500">
+                    Words in capitals match only in capitals. Changes apply the next time the document is read aloud.
+                </p>
+                {lexiconError && <p className="text-xs text-red-400">{lexiconError}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default NarrationStylePanel;
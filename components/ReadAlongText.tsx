@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Highlighter } from 'lucide-react';
+import { Highlight, HighlightColor } from '../types';
+import { TextRange, splitDocumentSentences } from '../services/narration';
+
+export const HIGHLIGHT_STYLES: Record<HighlightColor, { label: string; mark: string; swatch: string }> = {
+    yellow: { label: 'Yellow', mark: 'bg-yellow-400/30', swatch: 'bg-yellow-400' },
+    green: { label: 'Green', mark: 'bg-green-400/30', swatch: 'bg-green-400' },
+    blue: { label: 'Blue', mark: 'bg-sky-400/30', swatch: 'bg-sky-400' },
+    pink: { label: 'Pink', mark: 'bg-pink-400/30', swatch: 'bg-pink-400' },
+};
+
+interface ReadAlongTextProps {
+    text: string;
+    activeSentence: TextRange | null;
+    activeWord: TextRange | null;
+    highlights: Highlight[];
+    focus: { offset: number } | null; // Scrolls to this offset whenever a new object is passed
+    onSentenceClick: (offset: number) => void;
+    onHighlight: (start: number, end: number, color: HighlightColor) => void;
+}
+
+interface Segment extends TextRange {
+    isSentence: boolean;
+}
+
+interface SentenceProps {
+    text: string;
+    start: number;
+    active: boolean;
+    word: TextRange | null;
+    highlights: Highlight[];
+    onClick: (offset: number) => void;
+}
+
+const NO_HIGHLIGHTS: Highlight[] = [];
+
+// Splits a sentence at every highlight and word boundary inside it, so each
+// piece can be styled on its own.
+const renderPieces = (text: string, start: number, highlights: Highlight[], word: TextRange | null): React.ReactNode => {
+    const end = start + text.length;
+    const cuts = new Set([start, end]);
+    for (const range of [...highlights, ...(word ? [word] : [])]) {
+        cuts.add(Math.max(range.start, start));
+        cuts.add(Math.min(range.end, end));
+    }
+    const points = [...cuts].sort((a, b) => a - b);
+    if (points.length === 2) return text;
+
+    return points.slice(0, -1).map((from, i) => {
+        const to = points[i + 1];
+        const highlight = highlights.find(h => h.start <= from && h.end >= to);
+        const isWord = word !== null && word.start <= from && word.end >= to;
+        const className = [
+            highlight ? HIGHLIGHT_STYLES[highlight.color].mark : '',
+            isWord ? 'underline decoration-blue-400 decoration-2 underline-offset-4' : '',
+        ].join(' ').trim();
+        const piece = text.slice(from - start, to - start);
+        return className ? <span key={from} className={className}>{piece}</span> : <React.Fragment key={from}>{piece}</React.Fragment>;
+    });
+};
+
+// Memoised so that on each audio tick only the sentences whose highlight
+// changed re-render, which matters for book-length documents.
+const Sentence = React.memo(({ text, start, active, word, highlights, onClick }: SentenceProps) => (
+    <span
+        data-start={start}
+        onClick={() => onClick(start)}
+        className={`cursor-pointer rounded transition-colors ${active ? 'bg-blue-500/20 text-white' : 'hover:bg-slate-700/50'}`}
+    >
+        {renderPieces(text, start, highlights, active ? word : null)}
+    </span>
+));
+
+const ReadAlongText: React.FC<ReadAlongTextProps> = ({
+    text,
+    activeSentence,
+    activeWord,
+    highlights,
+    focus,
+    onSentenceClick,
+    onHighlight
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const textRef = useRef<HTMLParagraphElement>(null);
+    const [selection, setSelection] = useState<{ start: number; end: number; top: number; left: number } | null>(null);
+
+    // Stable click handler so memoised sentences don't re-render when the
+    // parent passes a new callback. Clicks that end a text selection are
+    // not seeks.
+    const clickRef = useRef(onSentenceClick);
+    clickRef.current = onSentenceClick;
+    const handleClick = useCallback((offset: number) => {
+        if (window.getSelection()?.isCollapsed === false) return;
+        clickRef.current(offset);
+    }, []);
+
+    // Sentences plus the whitespace between them, covering the whole text
+    const segments = useMemo(() => {
+        const result: Segment[] = [];
+        let cursor = 0;
+        for (const sentence of splitDocumentSentences(text)) {
+            if (sentence.start > cursor) result.push({ start: cursor, end: sentence.start, isSentence: false });
+            result.push({ ...sentence, isSentence: true });
+            cursor = sentence.end;
+        }
+        if (cursor < text.length) result.push({ start: cursor, end: text.length, isSentence: false });
+        return result;
+    }, [text]);
+
+    // Highlights overlapping each sentence, keyed by sentence start
+    const highlightsBySentence = useMemo(() => {
+        const map = new Map<number, Highlight[]>();
+        for (const segment of segments) {
+            if (!segment.isSentence) continue;
+            const overlapping = highlights.filter(h => h.start < segment.end && h.end > segment.start);
+            if (overlapping.length > 0) map.set(segment.start, overlapping);
+        }
+        return map;
+    }, [segments, highlights]);
+
+    const scrollToOffset = (offset: number, onlyIfHidden: boolean) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const spans = container.querySelectorAll<HTMLElement>('[data-start]');
+        let el: HTMLElement | null = null;
+        for (const span of spans) {
+            if (Number(span.dataset.start) > offset) break;
+            el = span;
+        }
+        if (!el) return;
+        const top = el.offsetTop;
+        const bottom = top + el.offsetHeight;
+        if (!onlyIfHidden || top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+            container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+        }
+    };
+
+    // Keep the active sentence in view without scrolling the whole page
+    useEffect(() => {
+        if (activeSentence) scrollToOffset(activeSentence.start, true);
+    }, [activeSentence?.start]);
+
+    useEffect(() => {
+        if (focus) scrollToOffset(focus.offset, false);
+    }, [focus]);
+
+    // Converts the browser selection into document offsets. The paragraph's
+    // text content is exactly the document text, so a range from its start
+    // measures the offset.
+    const handleMouseUp = () => {
+        const sel = window.getSelection();
+        const container = containerRef.current;
+        const paragraph = textRef.current;
+        if (!sel || sel.isCollapsed || !container || !paragraph || !paragraph.contains(sel.anchorNode) || !paragraph.contains(sel.focusNode)) {
+            setSelection(null);
+            return;
+        }
+        const range = sel.getRangeAt(0);
+        const before = document.createRange();
+        before.setStart(paragraph, 0);
+        before.setEnd(range.startContainer, range.startOffset);
+        const start = before.toString().length;
+        const end = start + range.toString().length;
+
+        const rect = range.getBoundingClientRect();
+        const containerRect = container.getBoundingClientRect();
+        setSelection({
+            start,
+            end,
+            top: rect.top - containerRect.top + container.scrollTop - 40,
+            left: rect.left - containerRect.left + rect.width / 2,
+        });
+    };
+
+    const applyHighlight = (color: HighlightColor) => {
+        if (!selection) return;
+        onHighlight(selection.start, selection.end, color);
+        window.getSelection()?.removeAllRanges();
+        setSelection(null);
+    };
+
+    return (
+        <div ref={containerRef} className="relative max-h-60 overflow-y-auto pr-2 custom-scrollbar">
+            {selection && (
+                <div
+                    className="absolute z-10 -translate-x-1/2 flex items-center gap-1 bg-slate-900 border border-slate-700 rounded-full px-2 py-1 shadow-xl"
+                    style={{ top: Math.max(selection.top, 0), left: selection.left }}
+                    onMouseDown={(e) => e.preventDefault()} // Keep the selection while picking
+                >
+                    <Highlighter size={14} className="text-slate-400 mr-1" />
+                    {(Object.keys(HIGHLIGHT_STYLES) as HighlightColor[]).map(color => (
+                        <button
+                            key={color}
+                            title={`Highlight ${HIGHLIGHT_STYLES[color].label.toLowerCase()}`}
+                            onClick={() => applyHighlight(color)}
+                            className={`w-4 h-4 rounded-full ${HIGHLIGHT_STYLES[color].swatch} hover:scale-125 transition-transform`}
+                        />
+                    ))}
+                </div>
+            )}
+            <p ref={textRef} onMouseUp={handleMouseUp} className="text-slate-300 text-sm whitespace-pre-wrap font-serif leading-relaxed">
+                {segments.map(segment => segment.isSentence ? (
+                    <Sentence
+                        key={segment.start}
+                        text={text.slice(segment.start, segment.end)}
+                        start={segment.start}
+                        active={activeSentence?.start === segment.start}
+                        word={activeSentence?.start === segment.start ? activeWord : null}
+                        highlights={highlightsBySentence.get(segment.start) ?? NO_HIGHLIGHTS}
+                        onClick={handleClick}
+                    />
+                ) : (
+                    <React.Fragment key={segment.start}>{text.slice(segment.start, segment.end)}</React.Fragment>
+                ))}
+            </p>
+        </div>
+    );
+};
+
+export default ReadAlongText;
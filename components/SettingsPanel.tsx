@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { KeyRound, Eye, EyeOff, Cpu, SlidersHorizontal, Save, RotateCcw, Check } from 'lucide-react';
+import { AppSettings, ImageSize, ModelCapability, VoiceOption } from '../types';
+import { DEFAULT_MODELS, DEFAULT_SETTINGS } from '../services/settings';
+import { LANGUAGE_NAMES } from '../services/voices';
+
+interface SettingsPanelProps {
+    settings: AppSettings;
+    voices: VoiceOption[];
+    onSave: (settings: AppSettings) => void;
+}
+
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+    extraction: 'Document extraction',
+    speech: 'Text to speech',
+    transcription: 'Transcription',
+    analysis: 'Image analysis',
+    generation: 'Image generation',
+    live: 'Live conversation',
+    dialogue: 'Dialogue attribution',
+    summary: 'Summaries and action items',
+    translation: 'Translation',
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, voices, onSave }) => {
+    const [draft, setDraft] = useState<AppSettings>(settings);
+    const [showKey, setShowKey] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    const update = (updates: Partial<AppSettings>) => {
+        setDraft(prev => ({ ...prev, ...updates }));
+        setSaved(false);
+    };
+
+    const updateModel = (capability: ModelCapability, model: string) => {
+        update({ models: { ...draft.models, [capability]: model } });
+    };
+
+    // An empty choice falls back to the default voice
+    const updateLanguageVoice = (language: string, voiceName: string) => {
+        const languageVoices = { ...draft.languageVoices };
+        if (voiceName) languageVoices[language] = voiceName;
+        else delete languageVoices[language];
+        update({ languageVoices });
+    };
+
+    const languages = [...new Set([...Object.keys(LANGUAGE_NAMES), ...Object.keys(draft.languageVoices)])];
+
+    const handleSave = () => {
+        onSave(draft);
+        setSaved(true);
+    };
+
+    const handleReset = () => {
+        // Keep the key, rates, budget, favourites and lexicon: this resets models and defaults only
+        update({
+            ...DEFAULT_SETTINGS,
+            apiKey: draft.apiKey,
+            rates: draft.rates,
+            monthlyBudget: draft.monthlyBudget,
+            favoriteVoices: draft.favoriteVoices,
+            lexicon: draft.lexicon
+        });
+    };
+
+    return (
+        <div className="max-w-2xl mx-auto space-y-6 animate-fadeIn">
+            <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-3">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <KeyRound size={18} /> API Key
+                </h3>
+                <p className="text-xs text-slate-400">
+                    Stored in this browser only. Leave empty to use the key the app was built with.
+                </p>
+                <div className="flex gap-2">
+                    <input
+                        type={showKey ? 'text' : 'password'}
+                        value={draft.apiKey}
+                        onChange={(e) => update({ apiKey: e.target.value })}
+                        placeholder="Gemini API key"
+                        autoComplete="off"
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    />
+                    <button
+                        onClick={() => setShowKey(!showKey)}
+                        title={showKey ? 'Hide key' : 'Show key'}
+                        className="p-2 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-white transition-colors"
+                    >
+                        {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-3">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <Cpu size={18} /> Models
+                </h3>
+                {(Object.keys(CAPABILITY_LABELS) as ModelCapability[]).map(capability => (
+                    <label key={capability} className="flex items-center justify-between gap-4">
+                        <span className="text-sm text-slate-300 shrink-0">{CAPABILITY_LABELS[capability]}</span>
+                        <input
+                            type="text"
+                            value={draft.models[capability]}
+                            onChange={(e) => updateModel(capability, e.target.value)}
+                            placeholder={DEFAULT_MODELS[capability]}
+                            className="w-72 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-300 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-4">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <SlidersHorizontal size={18} /> Defaults
+                </h3>
+                <label className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-slate-300">Voice</span>
+                    <select
+                        value={draft.defaultVoice}
+                        onChange={(e) => update({ defaultVoice: e.target.value })}
+                        className="w-72 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 outline-none"
+                    >
+                        {voices.map(voice => (
+                            <option key={voice.id} value={voice.geminiVoiceName}>{voice.name} ({voice.description})</option>
+                        ))}
+                    </select>
+                </label>
+                {languages.map(language => (
+                    <label key={language} className="flex items-center justify-between gap-4">
+                        <span className="text-sm text-slate-300">{LANGUAGE_NAMES[language] ?? language} documents</span>
+                        <select
+                            value={draft.languageVoices[language] ?? ''}
+                            onChange={(e) => updateLanguageVoice(language, e.target.value)}
+                            className="w-72 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 outline-none"
+                        >
+                            <option value="">Same as default voice</option>
+                            {voices.map(voice => (
+                                <option key={voice.id} value={voice.geminiVoiceName}>{voice.name} ({voice.description})</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+                <label className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-slate-300">Playback speed</span>
+                    <span className="flex items-center gap-3 w-72">
+                        <input
+                            type="range"
+                            min="0.5"
+                            max="2.0"
+                            step="0.1"
+                            value={draft.playbackRate}
+                            onChange={(e) => update({ playbackRate: parseFloat(e.target.value) })}
+                            className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                        />
+                        <span className="text-xs font-mono text-slate-300 w-8">{draft.playbackRate}x</span>
+                    </span>
+                </label>
+                <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-slate-300">Image size</span>
+                    <div className="flex gap-2 w-72">
+                        {[ImageSize.SIZE_1K, ImageSize.SIZE_2K, ImageSize.SIZE_4K].map(size => (
+                            <button
+                                key={size}
+                                onClick={() => update({ imageSize: size })}
+                                className={`flex-1 py-1.5 rounded-lg text-xs font-semibold border transition-all ${draft.imageSize === size ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-white'}`}
+                            >
+                                {size}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={handleReset}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white rounded-lg hover:bg-slate-800 transition-colors"
+                >
+                    <RotateCcw size={16} /> Reset to defaults
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors"
+                >
+                    {saved ? <Check size={16} /> : <Save size={16} />} {saved ? 'Saved' : 'Save'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
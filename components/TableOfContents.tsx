@@ -0,0 +1,52 @@
+import React from 'react';
+import { ListTree, Play } from 'lucide-react';
+import { DocumentSection } from '../types';
+
+interface TableOfContentsProps {
+    sections: DocumentSection[];
+    activeStart: number | null; // Start offset of the section being read
+    skippedFootnotes: number;
+    skippedHeaderFooterLines: number;
+    onSelect: (section: DocumentSection) => void;
+}
+
+const INDENT = ['pl-0', 'pl-4', 'pl-8'];
+
+const TableOfContents: React.FC<TableOfContentsProps> = ({
+    sections,
+    activeStart,
+    skippedFootnotes,
+    skippedHeaderFooterLines,
+    onSelect
+}) => (
+    <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700">
+        <h4 className="text-sm font-semibold text-slate-500 uppercase mb-3 flex items-center gap-2">
+            <ListTree size={14} /> Contents
+        </h4>
+        <div className="max-h-60 overflow-y-auto pr-2 space-y-0.5 custom-scrollbar">
+            {sections.map(section => (
+                <button
+                    key={section.start}
+                    onClick={() => onSelect(section)}
+                    title="Start narration here"
+                    className={`w-full flex items-center justify-between gap-2 py-1.5 pr-2 rounded-lg text-left transition-colors group hover:bg-slate-700/50 ${INDENT[section.level - 1] ?? 'pl-8'}`}
+                >
+                    <span className={`flex items-center gap-2 min-w-0 ${section.level === 1 ? 'text-sm font-medium' : 'text-xs'} ${activeStart === section.start ? 'text-blue-300' : 'text-slate-300'}`}>
+                        <Play size={10} className="shrink-0 opacity-0 group-hover:opacity-100 text-blue-400" />
+                        <span className="line-clamp-1">{section.title}</span>
+                    </span>
+                    {section.page !== undefined && (
+                        <span className="text-[10px] font-mono text-slate-500 shrink-0">p. {section.page}</span>
+                    )}
+                </button>
+            ))}
+        </div>
+        {(skippedFootnotes > 0 || skippedHeaderFooterLines > 0) && (
+            <p className="mt-3 pt-3 border-t border-slate-700/50 text-[11px] text-slate-500">
+                Left out of the narration: {skippedFootnotes} footnotes, {skippedHeaderFooterLines} header/footer lines.
+            </p>
+        )}
+    </div>
+);
+
+export default TableOfContents;
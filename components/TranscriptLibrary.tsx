@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { History as HistoryIcon, Search, Trash2, Clock, Users } from 'lucide-react';
+import { TranscriptItem, TranscriptSegment } from '../types';
+import { getSpeakers, searchTranscripts } from '../services/transcription';
+import { formatTime } from '../services/utils';
+
+interface TranscriptLibraryProps {
+    items: TranscriptItem[];
+    currentId: string | null;
+    onOpen: (item: TranscriptItem) => void;
+    onDelete: (id: string) => void;
+}
+
+const TranscriptLibrary: React.FC<TranscriptLibraryProps> = ({
+    items,
+    currentId,
+    onOpen,
+    onDelete
+}) => {
+    const [query, setQuery] = useState('');
+    const matches = query.trim() ? searchTranscripts(items, query) : null;
+
+    const renderSnippet = (segment: TranscriptSegment, index: number) => (
+        <p key={index} className="text-xs text-slate-400 line-clamp-2">
+            <span className="font-mono text-slate-500">{formatTime(segment.start)}</span>{' '}
+            <span className="text-purple-400/80">{segment.speaker}:</span> {segment.text}
+        </p>
+    );
+
+    const renderItem = (item: TranscriptItem, snippets: TranscriptSegment[] = []) => (
+        <div
+            key={item.id}
+            onClick={() => onOpen(item)}
+            className={`p-3 rounded-xl cursor-pointer transition-all border ${currentId === item.id ? 'bg-purple-600/10 border-purple-500/50' : 'bg-slate-700/30 border-transparent hover:bg-slate-700/50 hover:border-slate-600'}`}
+        >
+            <div className="flex justify-between items-start mb-1">
+                <h4 className={`text-sm font-medium line-clamp-1 ${currentId === item.id ? 'text-purple-300' : 'text-slate-300'}`}>
+                    {item.fileName}
+                </h4>
+                <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(item.id); }}
+                    title="Delete transcript"
+                    className="text-slate-500 hover:text-red-400 p-1"
+                >
+                    <Trash2 size={14} />
+                </button>
+            </div>
+            <div className="flex items-center gap-3 text-xs text-slate-500">
+                <span>{new Date(item.createdAt).toLocaleDateString()}</span>
+                <span className="flex items-center gap-1"><Clock size={10} /> {formatTime(item.duration)}</span>
+                <span className="flex items-center gap-1"><Users size={10} /> {getSpeakers(item.transcript).length}</span>
+            </div>
+            {snippets.length > 0 && (
+                <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-1">
+                    {snippets.map(renderSnippet)}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 overflow-hidden flex flex-col h-[600px]">
+            <div className="p-4 border-b border-slate-700 space-y-3">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <HistoryIcon size={18} /> Transcripts
+                </h3>
+                <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 focus-within:ring-2 focus-within:ring-purple-500">
+                    <Search size={14} className="text-slate-500" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search all transcripts"
+                        className="flex-1 bg-transparent text-sm text-slate-300 outline-none"
+                    />
+                </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                {matches ? (
+                    matches.length === 0
+                        ? <div className="text-center py-10 text-slate-500 text-sm">No transcripts match.</div>
+                        : matches.map(match => renderItem(match.item, match.segments))
+                ) : items.length === 0 ? (
+                    <div className="text-center py-10 text-slate-500 text-sm">No transcripts yet.</div>
+                ) : (
+                    items.map(item => renderItem(item))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptLibrary;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { FileText, Gavel, Languages, ListChecks, User } from 'lucide-react';
+import { SummaryLength, TranscriptItem } from '../types';
+import { LANGUAGE_NAMES } from '../services/voices';
+import { formatTime } from '../services/utils';
+
+interface TranscriptToolsProps {
+    item: TranscriptItem;
+    disabled: boolean;
+    onSummarize: (length: SummaryLength) => void;
+    onExtractActionItems: () => void;
+    onExtractDecisions: () => void;
+    onTranslate: (language: string) => void;
+}
+
+type ToolTab = 'summary' | 'actions' | 'decisions' | 'translation';
+
+const SUMMARY_LENGTHS: { value: SummaryLength; label: string }[] = [
+    { value: 'short', label: 'Short' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'long', label: 'Detailed' },
+];
+
+// Summary, action items, decisions and translations of a transcript. Each
+// is kept with the transcript once made; running it again replaces it.
+const TranscriptTools: React.FC<TranscriptToolsProps> = ({
+    item,
+    disabled,
+    onSummarize,
+    onExtractActionItems,
+    onExtractDecisions,
+    onTranslate
+}) => {
+    const [tab, setTab] = useState<ToolTab>('summary');
+    const [summaryLength, setSummaryLength] = useState<SummaryLength>(item.summary?.length ?? 'medium');
+    const [language, setLanguage] = useState(() => Object.keys(LANGUAGE_NAMES).find(code => code !== item.transcript.language) ?? 'en');
+    const translation = item.translations?.find(t => t.language === language);
+
+    const tabs: { value: ToolTab; label: string; icon: React.ReactNode }[] = [
+        { value: 'summary', label: 'Summary', icon: <FileText size={14} /> },
+        { value: 'actions', label: 'Action items', icon: <ListChecks size={14} /> },
+        { value: 'decisions', label: 'Decisions', icon: <Gavel size={14} /> },
+        { value: 'translation', label: 'Translation', icon: <Languages size={14} /> },
+    ];
+
+    const renderRunButton = (label: string, onClick: () => void) => (
+        <button
+            onClick={onClick}
+            disabled={disabled}
+            className="px-4 py-1.5 rounded-lg bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold disabled:opacity-50 transition-colors"
+        >
+            {label}
+        </button>
+    );
+
+    const renderSummary = () => (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <select
+                    value={summaryLength}
+                    onChange={(e) => setSummaryLength(e.target.value as SummaryLength)}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 outline-none"
+                >
+                    {SUMMARY_LENGTHS.map(length => <option key={length.value} value={length.value}>{length.label}</option>)}
+                </select>
+                {renderRunButton(item.summary ? 'Summarize again' : 'Summarize', () => onSummarize(summaryLength))}
+            </div>
+            {item.summary && (
+                <div className="space-y-2">
+                    {item.summary.text.split(/\n+/).map((paragraph, i) => (
+                        <p key={i} className="text-sm text-slate-200 leading-relaxed">{paragraph}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    const renderActionItems = () => (
+        <div className="space-y-3">
+            {renderRunButton(item.actionItems ? 'Find again' : 'Find action items', onExtractActionItems)}
+            {item.actionItems && (item.actionItems.length === 0 ? (
+                <p className="text-sm text-slate-500">No action items were agreed.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {item.actionItems.map((action, i) => (
+                        <li key={i} className="flex items-start justify-between gap-4 text-sm">
+                            <span className="text-slate-200">{action.task}</span>
+                            <span className={`flex items-center gap-1 shrink-0 text-xs ${action.owner ? 'text-purple-400' : 'text-slate-500'}`}>
+                                <User size={12} /> {action.owner || 'Unassigned'}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            ))}
+        </div>
+    );
+
+    const renderDecisions = () => (
+        <div className="space-y-3">
+            {renderRunButton(item.decisions ? 'Find again' : 'Find key decisions', onExtractDecisions)}
+            {item.decisions && (item.decisions.length === 0 ? (
+                <p className="text-sm text-slate-500">No decisions were made.</p>
+            ) : (
+                <ul className="list-disc pl-5 space-y-1 text-sm text-slate-200">
+                    {item.decisions.map((decision, i) => <li key={i}>{decision}</li>)}
+                </ul>
+            ))}
+        </div>
+    );
+
+    const renderTranslation = () => (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <select
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-300 outline-none"
+                >
+                    {Object.entries(LANGUAGE_NAMES).map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+                </select>
+                {renderRunButton(translation ? 'Translate again' : 'Translate', () => onTranslate(language))}
+            </div>
+            {translation && (
+                <div className="max-h-[24rem] overflow-y-auto pr-2 space-y-2 custom-scrollbar">
+                    {item.transcript.segments.map((segment, i) => (
+                        <div key={i} className="flex gap-3 text-sm">
+                            <span className="text-xs font-mono text-slate-500 pt-0.5 w-12 shrink-0">{formatTime(segment.start)}</span>
+                            <span className="flex-1">
+                                <span className="block text-xs font-semibold text-purple-400">{segment.speaker}</span>
+                                <span className="text-slate-200 leading-relaxed">{translation.segments[i]}</span>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-4">
+            <div className="flex flex-wrap gap-2">
+                {tabs.map(t => (
+                    <button
+                        key={t.value}
+                        onClick={() => setTab(t.value)}
+                        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${tab === t.value ? 'bg-purple-600/20 text-purple-300' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                    >
+                        {t.icon} {t.label}
+                    </button>
+                ))}
+            </div>
+            {tab === 'summary' && renderSummary()}
+            {tab === 'actions' && renderActionItems()}
+            {tab === 'decisions' && renderDecisions()}
+            {tab === 'translation' && renderTranslation()}
+        </div>
+    );
+};
+
+export default TranscriptTools;
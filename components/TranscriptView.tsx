@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Download, Pencil, Users } from 'lucide-react';
+import { Transcript, TranscriptSegment } from '../types';
+import { getSpeakers } from '../services/transcription';
+import { TranscriptFormat, exportTranscript } from '../services/transcriptExport';
+import { downloadBlob, formatTime } from '../services/utils';
+
+interface TranscriptViewProps {
+    transcript: Transcript;
+    audioUrl: string | null; // The transcribed recording, for click-to-play
+    sourceName: string;
+    inProgress: boolean;
+    onRenameSpeaker: (from: string, to: string) => void;
+    onSendToReader: () => void;
+}
+
+const FORMATS: { value: TranscriptFormat; label: string }[] = [
+    { value: 'srt', label: 'SRT' },
+    { value: 'vtt', label: 'WebVTT' },
+    { value: 'txt', label: 'Text' },
+    { value: 'md', label: 'Markdown' },
+    { value: 'docx', label: 'Word' },
+];
+
+const SPEAKER_COLORS = ['text-purple-400', 'text-blue-400', 'text-green-400', 'text-amber-400', 'text-pink-400', 'text-cyan-400'];
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({
+    transcript,
+    audioUrl,
+    sourceName,
+    inProgress,
+    onRenameSpeaker,
+    onSendToReader
+}) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+    const [speakerName, setSpeakerName] = useState('');
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const speakers = getSpeakers(transcript);
+    const colorOf = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+    const handlePlayFrom = (segment: TranscriptSegment) => {
+        if (!audioRef.current) return;
+        audioRef.current.currentTime = segment.start;
+        audioRef.current.play();
+    };
+
+    const startRename = (speaker: string) => {
+        setEditingSpeaker(speaker);
+        setSpeakerName(speaker);
+    };
+
+    // Later parts of a recording still being transcribed come back with the
+    // old labels, so speakers are only renamed once it is done
+    const commitRename = () => {
+        if (!inProgress && editingSpeaker && speakerName.trim() && speakerName.trim() !== editingSpeaker) {
+            onRenameSpeaker(editingSpeaker, speakerName.trim());
+        }
+        setEditingSpeaker(null);
+    };
+
+    const handleExport = async (format: TranscriptFormat) => {
+        try {
+            const { blob, fileName } = await exportTranscript(transcript, format, sourceName);
+            downloadBlob(blob, fileName);
+            setExportError(null);
+        } catch (err: any) {
+            setExportError(`Could not export the transcript: ${err.message}`);
+        }
+    };
+
+    const renderSpeaker = (speaker: string) => (
+        <div key={speaker} className="flex items-center gap-1 text-xs">
+            {editingSpeaker === speaker && !inProgress ? (
+                <input
+                    autoFocus
+                    value={speakerName}
+                    onChange={(e) => setSpeakerName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingSpeaker(null);
+                    }}
+                    className="w-32 bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-slate-200 outline-none focus:ring-2 focus:ring-purple-500"
+                />
+            ) : (
+                <button
+                    onClick={() => startRename(speaker)}
+                    disabled={inProgress}
+                    title={inProgress ? 'Speakers can be renamed once the transcription is done' : 'Rename speaker'}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-900 hover:bg-slate-700 disabled:hover:bg-slate-900 disabled:cursor-default transition-colors ${colorOf(speaker)}`}
+                >
+                    {speaker} <Pencil size={10} className="text-slate-500" />
+                </button>
+            )}
+        </div>
+    );
+
+    const renderSegment = (segment: TranscriptSegment, index: number) => {
+        const isActive = audioUrl !== null && currentTime >= segment.start && currentTime < segment.end;
+        return (
+            <button
+                key={index}
+                onClick={() => handlePlayFrom(segment)}
+                disabled={!audioUrl}
+                className={`w-full text-left flex gap-3 p-2 rounded-lg transition-colors disabled:cursor-default ${isActive ? 'bg-purple-500/10' : 'hover:bg-slate-700/50'}`}
+            >
+                <span className="text-xs font-mono text-slate-500 pt-0.5 w-12 shrink-0">{formatTime(segment.start)}</span>
+                <span className="flex-1">
+                    <span className={`block text-xs font-semibold ${colorOf(segment.speaker)}`}>{segment.speaker}</span>
+                    <span className="text-slate-200 leading-relaxed">{segment.text}</span>
+                </span>
+            </button>
+        );
+    };
+
+    return (
+        <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-bold text-slate-500 uppercase">
+                    Transcript {inProgress && <span className="normal-case font-normal text-purple-400">(in progress)</span>}
+                    {transcript.language && <span className="ml-2 normal-case font-normal text-slate-400">Language: {transcript.language}</span>}
+                </h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={onSendToReader}
+                        disabled={inProgress || transcript.segments.length === 0}
+                        title="Add to the Reader library to read it aloud"
+                        className="flex items-center gap-1 px-2 py-0.5 mr-2 rounded text-xs text-purple-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 transition-colors"
+                    >
+                        <BookOpen size={12} /> Send to Reader
+                    </button>
+                    <Download size={14} className="text-slate-500" />
+                    {FORMATS.map(format => (
+                        <button
+                            key={format.value}
+                            onClick={() => handleExport(format.value)}
+                            disabled={inProgress || transcript.segments.length === 0}
+                            className="px-2 py-0.5 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 transition-colors"
+                        >
+                            {format.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {exportError && <p className="text-xs text-red-400">{exportError}</p>}
+
+            {speakers.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <Users size={14} className="text-slate-500" />
+                    {speakers.map(renderSpeaker)}
+                </div>
+            )}
+
+            {audioUrl && (
+                <audio
+                    ref={audioRef}
+                    controls
+                    src={audioUrl}
+                    onTimeUpdate={() => setCurrentTime(audioRef.current?.currentTime ?? 0)}
+                    className="w-full accent-purple-500"
+                />
+            )}
+
+            <div className="max-h-[32rem] overflow-y-auto pr-2 space-y-1 custom-scrollbar">
+                {transcript.segments.map(renderSegment)}
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptView;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Languages, Trash2 } from 'lucide-react';
+import { DocumentTranslation } from '../types';
+import { LANGUAGE_NAMES } from '../services/voices';
+
+interface TranslationBarProps {
+    language: string; // The document's
+    translations: DocumentTranslation[];
+    shown: string | null; // Language of the translation shown beside the original
+    disabled: boolean;
+    onShow: (language: string | null) => void;
+    onTranslate: (language: string) => void;
+    onDelete: (language: string) => void;
+}
+
+const nameOf = (code: string) => LANGUAGE_NAMES[code] ?? code;
+
+// Picks the translation to show beside the original, or makes a new one
+const TranslationBar: React.FC<TranslationBarProps> = ({
+    language,
+    translations,
+    shown,
+    disabled,
+    onShow,
+    onTranslate,
+    onDelete
+}) => {
+    const targets = Object.keys(LANGUAGE_NAMES).filter(code => code !== language);
+    const [target, setTarget] = useState(targets[0] ?? 'en');
+    const exists = translations.some(t => t.language === target);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+            <Languages size={14} className="text-slate-500" />
+            {translations.length > 0 && (
+                <>
+                    <select
+                        value={shown ?? ''}
+                        onChange={(e) => onShow(e.target.value || null)}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-slate-300 outline-none"
+                    >
+                        <option value="">Original only</option>
+                        {translations.map(t => (
+                            <option key={t.language} value={t.language}>Side by side with {nameOf(t.language)}</option>
+                        ))}
+                    </select>
+                    {shown && (
+                        <button
+                            onClick={() => onDelete(shown)}
+                            disabled={disabled}
+                            title={`Delete the ${nameOf(shown)} translation`}
+                            className="text-slate-500 hover:text-red-400 p-1 disabled:opacity-40"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    )}
+                    <span className="text-slate-600">|</span>
+                </>
+            )}
+            <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-slate-300 outline-none"
+            >
+                {targets.map(code => <option key={code} value={code}>{nameOf(code)}</option>)}
+            </select>
+            <button
+                onClick={() => onTranslate(target)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-lg bg-blue-600/20 hover:bg-blue-600/30 text-blue-400 disabled:opacity-40 transition-colors"
+            >
+                {exists ? 'Translate again' : 'Translate'}
+            </button>
+        </div>
+    );
+};
+
+export default TranslationBar;
@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Volume2 } from 'lucide-react';
+import { DocumentTranslation } from '../types';
+import { TextRange, splitParagraphs } from '../services/narration';
+import { findParagraphAt, getTranslationRanges } from '../services/translation';
+import { LANGUAGE_NAMES } from '../services/voices';
+
+export type ReadingVersion = 'original' | 'translation';
+
+interface TranslationViewProps {
+    text: string;
+    language: string;
+    translation: DocumentTranslation;
+    narrated: ReadingVersion;
+    activeOffset: number | null; // Start of the sentence being read, in the narrated version
+    onNarrate: (version: ReadingVersion) => void;
+    onParagraphClick: (offset: number) => void; // Offset in the narrated version
+}
+
+// The original and its translation side by side, one row per paragraph.
+// The row being read is highlighted; clicking a row reads from there.
+const TranslationView: React.FC<TranslationViewProps> = ({
+    text,
+    language,
+    translation,
+    narrated,
+    activeOffset,
+    onNarrate,
+    onParagraphClick
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const rows = useMemo(() => {
+        const originals = splitParagraphs(text);
+        const translated = getTranslationRanges(translation);
+        return originals.slice(0, translated.length).map((original, i) => ({ original, translated: translated[i] }));
+    }, [text, translation]);
+
+    const rangesOf = (version: ReadingVersion): TextRange[] => rows.map(row => version === 'original' ? row.original : row.translated);
+    const activeRow = activeOffset === null ? -1 : findParagraphAt(rangesOf(narrated), activeOffset);
+
+    // Keep the row being read in view without scrolling the whole page
+    useEffect(() => {
+        const container = containerRef.current;
+        const el = container?.querySelector<HTMLElement>(`[data-row="${activeRow}"]`);
+        if (!container || !el) return;
+        if (el.offsetTop < container.scrollTop || el.offsetTop + el.offsetHeight > container.scrollTop + container.clientHeight) {
+            container.scrollTo({ top: el.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+        }
+    }, [activeRow]);
+
+    const renderHeading = (version: ReadingVersion, code: string) => (
+        <button
+            onClick={() => onNarrate(version)}
+            title={narrated === version ? 'Being narrated' : 'Narrate this version'}
+            className={`flex items-center gap-2 text-xs font-semibold uppercase px-2 py-1 rounded-lg transition-colors ${narrated === version ? 'bg-blue-500/20 text-blue-300' : 'text-slate-500 hover:text-white hover:bg-slate-700'}`}
+        >
+            <Volume2 size={12} className={narrated === version ? '' : 'opacity-40'} />
+            {version === 'original' ? 'Original' : 'Translation'} · {LANGUAGE_NAMES[code] ?? code}
+        </button>
+    );
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+                {renderHeading('original', language)}
+                {renderHeading('translation', translation.language)}
+            </div>
+            <div ref={containerRef} className="relative max-h-96 overflow-y-auto pr-2 space-y-1 custom-scrollbar">
+                {rows.map((row, i) => (
+                    <div
+                        key={i}
+                        data-row={i}
+                        onClick={() => onParagraphClick(rangesOf(narrated)[i].start)}
+                        className={`grid grid-cols-2 gap-4 p-2 rounded-lg cursor-pointer transition-colors ${i === activeRow ? 'bg-blue-500/10' : 'hover:bg-slate-700/50'}`}
+                    >
+                        <p className={`text-sm leading-relaxed ${narrated === 'original' && i === activeRow ? 'text-white' : 'text-slate-300'}`}>
+                            {text.slice(row.original.start, row.original.end)}
+                        </p>
+                        <p className={`text-sm leading-relaxed ${narrated === 'translation' && i === activeRow ? 'text-white' : 'text-slate-300'}`}>
+                            {translation.paragraphs[i]}
+                        </p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default TranslationView;
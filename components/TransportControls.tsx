@@ -0,0 +1,93 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Moon, Keyboard } from 'lucide-react';
+import { SkipUnit } from '../services/narration';
+
+// Stops playback after a number of minutes, or when the narration reaches
+// the end of the chapter it was in (a text offset).
+export type SleepTimer =
+    | { kind: 'minutes'; minutes: number; endsAt: number }
+    | { kind: 'chapter'; chapterEnd: number };
+
+export type SleepTimerChoice = { kind: 'minutes'; minutes: number } | { kind: 'chapter' };
+
+interface TransportControlsProps {
+    sleepTimer: SleepTimer | null;
+    disabled: boolean;
+    onSkip: (unit: SkipUnit, direction: 1 | -1) => void;
+    onSetSleepTimer: (choice: SleepTimerChoice | null) => void;
+}
+
+const SLEEP_MINUTES = [5, 10, 15, 30, 45, 60, 90];
+
+const SHORTCUTS: [keys: string, action: string][] = [
+    ['Space / K', 'Play or pause'],
+    ['← / →', 'Previous or next sentence'],
+    ['Shift + ← / →', 'Previous or next paragraph'],
+    ['[ / ]', 'Slower or faster'],
+    ['B', 'Add a bookmark'],
+];
+
+const TransportControls: React.FC<TransportControlsProps> = ({
+    sleepTimer,
+    disabled,
+    onSkip,
+    onSetSleepTimer
+}) => {
+    const selected = !sleepTimer ? 'off' : sleepTimer.kind === 'chapter' ? 'chapter' : String(sleepTimer.minutes);
+
+    const handleSelect = (value: string) => {
+        if (value === 'off') onSetSleepTimer(null);
+        else if (value === 'chapter') onSetSleepTimer({ kind: 'chapter' });
+        else onSetSleepTimer({ kind: 'minutes', minutes: Number(value) });
+    };
+
+    const renderSkip = (unit: SkipUnit, direction: 1 | -1, icon: React.ReactNode, title: string) => (
+        <button
+            onClick={() => onSkip(unit, direction)}
+            disabled={disabled}
+            title={title}
+            className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-white disabled:opacity-40 transition-colors"
+        >
+            {icon}
+        </button>
+    );
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-1 bg-slate-950/50 p-1 rounded-lg">
+                {renderSkip('paragraph', -1, <ChevronsLeft size={16} />, 'Previous paragraph (Shift + ←)')}
+                {renderSkip('sentence', -1, <ChevronLeft size={16} />, 'Previous sentence (←)')}
+                {renderSkip('sentence', 1, <ChevronRight size={16} />, 'Next sentence (→)')}
+                {renderSkip('paragraph', 1, <ChevronsRight size={16} />, 'Next paragraph (Shift + →)')}
+                <span
+                    title={SHORTCUTS.map(([keys, action]) => `${keys}: ${action}`).join('\n')}
+                    className="p-1.5 text-slate-600 cursor-help"
+                >
+                    <Keyboard size={16} />
+                </span>
+            </div>
+
+            <div className="flex items-center gap-2 bg-slate-950/50 p-2 rounded-lg">
+                <Moon size={14} className={sleepTimer ? 'text-blue-400' : 'text-slate-400'} />
+                <select
+                    value={selected}
+                    onChange={(e) => handleSelect(e.target.value)}
+                    className="bg-transparent text-xs text-slate-300 outline-none cursor-pointer"
+                >
+                    <option value="off">Sleep timer off</option>
+                    <option value="chapter">End of chapter</option>
+                    {SLEEP_MINUTES.map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes} minutes</option>
+                    ))}
+                </select>
+                {sleepTimer?.kind === 'minutes' && (
+                    <span className="text-xs text-slate-500">
+                        until {new Date(sleepTimer.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TransportControls;
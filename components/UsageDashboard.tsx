@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, Wallet, FileText, Tag, Trash2, AlertTriangle } from 'lucide-react';
+import { AppSettings, HistoryItem, ModelCapability, ModelRate, UsageRecord } from '../types';
+import { UsageTotals, getMonthStart, summarizeUsage } from '../services/usage';
+
+interface UsageDashboardProps {
+    records: UsageRecord[];
+    history: HistoryItem[];
+    settings: AppSettings;
+    onUpdateSettings: (updates: Partial<AppSettings>) => void;
+    onClear: () => void;
+}
+
+const FEATURE_LABELS: Record<ModelCapability, string> = {
+    extraction: 'Document extraction',
+    speech: 'Narration (TTS)',
+    transcription: 'Transcription',
+    analysis: 'Image analysis',
+    generation: 'Image generation',
+    live: 'Live conversation',
+    dialogue: 'Dialogue attribution',
+    summary: 'Summaries and action items',
+    translation: 'Translation',
+};
+
+const RATE_FIELDS: { key: keyof ModelRate; label: string }[] = [
+    { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+    { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+    { key: 'perMinute', label: 'Per live minute' },
+];
+
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatCount = (n: number) => Math.round(n).toLocaleString();
+
+const renderUsageRow = (key: string, label: string, totals: UsageTotals) => (
+    <tr key={key} className="border-t border-slate-700/50">
+        <td className="py-2 pr-4 text-slate-300 max-w-[16rem] truncate">{label}</td>
+        <td className="py-2 px-2 text-right font-mono text-slate-400">{formatCount(totals.calls)}</td>
+        <td className="py-2 px-2 text-right font-mono text-slate-400">{formatCount(totals.inputTokens)}</td>
+        <td className="py-2 px-2 text-right font-mono text-slate-400">{formatCount(totals.outputTokens)}</td>
+        <td className="py-2 px-2 text-right font-mono text-slate-400">
+            {totals.seconds > 0 ? `${(totals.seconds / 60).toFixed(1)} min` : formatCount(totals.characters)}
+        </td>
+        <td className="py-2 pl-2 text-right font-mono text-slate-200">{formatCost(totals.cost)}</td>
+    </tr>
+);
+
+const UsageTable = ({ rows }: { rows: { key: string; label: string; totals: UsageTotals }[] }) => (
+    <table className="w-full text-xs">
+        <thead>
+            <tr className="text-slate-500 uppercase text-[10px]">
+                <th className="pb-2 text-left font-semibold"></th>
+                <th className="pb-2 px-2 text-right font-semibold">Calls</th>
+                <th className="pb-2 px-2 text-right font-semibold">Tokens in</th>
+                <th className="pb-2 px-2 text-right font-semibold">Tokens out</th>
+                <th className="pb-2 px-2 text-right font-semibold">Chars / time</th>
+                <th className="pb-2 pl-2 text-right font-semibold">Cost</th>
+            </tr>
+        </thead>
+        <tbody>
+            {rows.map(row => renderUsageRow(row.key, row.label, row.totals))}
+        </tbody>
+    </table>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, history, settings, onUpdateSettings, onClear }) => {
+    const [period, setPeriod] = useState<'month' | 'all'>('month');
+    const monthStart = getMonthStart();
+
+    const monthSummary = useMemo(
+        () => summarizeUsage(records.filter(r => r.timestamp >= monthStart), settings.rates),
+        [records, settings.rates, monthStart]
+    );
+    const summary = useMemo(
+        () => period === 'month' ? monthSummary : summarizeUsage(records, settings.rates),
+        [period, monthSummary, records, settings.rates]
+    );
+
+    const featureRows = (Object.keys(FEATURE_LABELS) as ModelCapability[])
+        .filter(feature => summary.byFeature[feature])
+        .map(feature => ({ key: feature, label: FEATURE_LABELS[feature], totals: summary.byFeature[feature]! }));
+    const documentRows = Object.entries<UsageTotals>(summary.byDocument)
+        .map(([id, totals]) => ({ key: id, label: history.find(h => h.id === id)?.fileName ?? 'Removed document', totals }))
+        .sort((a, b) => b.totals.cost - a.totals.cost);
+
+    // Every model in use or seen in the records can be priced
+    const models = [...new Set([...Object.values(settings.models), ...records.map(r => r.model)])].sort();
+    const budget = settings.monthlyBudget;
+    const spent = monthSummary.total.cost;
+
+    const updateRate = (model: string, key: keyof ModelRate, value: string) => {
+        const current = settings.rates[model] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+        const parsed = parseFloat(value);
+        onUpdateSettings({ rates: { ...settings.rates, [model]: { ...current, [key]: isNaN(parsed) ? 0 : Math.max(0, parsed) } } });
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-6 animate-fadeIn">
+            {/* Budget */}
+            <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-3">
+                <div className="flex justify-between items-center gap-4">
+                    <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                        <Wallet size={18} /> This Month
+                    </h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        Monthly budget ($)
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={budget || ''}
+                            placeholder="None"
+                            onChange={(e) => onUpdateSettings({ monthlyBudget: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-300 font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </label>
+                </div>
+                <p className="text-3xl font-bold text-white font-mono">
+                    {formatCost(spent)}
+                    {budget > 0 && <span className="text-base font-normal text-slate-500"> of {formatCost(budget)}</span>}
+                </p>
+                {budget > 0 && (
+                    <>
+                        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full ${spent >= budget ? 'bg-red-500' : spent >= budget * 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                                style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }}
+                            />
+                        </div>
+                        {spent >= budget * 0.8 && (
+                            <p className="text-xs text-amber-400 flex items-center gap-1">
+                                <AlertTriangle size={12} />
+                                {spent >= budget ? 'Budget reached. The next call will ask before going over it.' : 'Over 80% of the budget used.'}
+                            </p>
+                        )}
+                    </>
+                )}
+                <p className="text-[11px] text-slate-500">Costs are estimates from the rates below, not your bill.</p>
+            </div>
+
+            {/* Breakdowns */}
+            <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-4">
+                <div className="flex justify-between items-center">
+                    <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                        <BarChart3 size={18} /> By Feature
+                    </h3>
+                    <div className="flex items-center gap-2">
+                        {(['month', 'all'] as const).map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setPeriod(p)}
+                                className={`px-3 py-1 rounded-lg text-xs transition-colors ${period === p ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                {p === 'month' ? 'This month' : 'All time'}
+                            </button>
+                        ))}
+                        <button
+                            onClick={onClear}
+                            disabled={records.length === 0}
+                            title="Clear usage history"
+                            className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-700 hover:text-red-400 disabled:opacity-40 transition-colors"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                </div>
+                {featureRows.length === 0 ? (
+                    <p className="text-sm text-slate-500 text-center py-4">No usage recorded yet.</p>
+                ) : (
+                    <UsageTable rows={[...featureRows, { key: 'total', label: 'Total', totals: summary.total }]} />
+                )}
+
+                {documentRows.length > 0 && (
+                    <>
+                        <h3 className="font-semibold text-slate-200 flex items-center gap-2 pt-2">
+                            <FileText size={18} /> By Document
+                        </h3>
+                        <div className="max-h-72 overflow-y-auto pr-1 custom-scrollbar">
+                            <UsageTable rows={documentRows} />
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {/* Rates */}
+            <div className="bg-slate-800 p-6 rounded-2xl border border-slate-700 space-y-3">
+                <h3 className="font-semibold text-slate-200 flex items-center gap-2">
+                    <Tag size={18} /> Rates (USD)
+                </h3>
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-slate-500 uppercase text-[10px]">
+                            <th className="pb-2 text-left font-semibold">Model</th>
+                            {RATE_FIELDS.map(field => (
+                                <th key={field.key} className="pb-2 px-2 text-right font-semibold">{field.label}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {models.map(model => (
+                            <tr key={model} className="border-t border-slate-700/50">
+                                <td className="py-2 pr-4 font-mono text-slate-300">{model}</td>
+                                {RATE_FIELDS.map(field => (
+                                    <td key={field.key} className="py-2 px-2 text-right">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={settings.rates[model]?.[field.key] ?? 0}
+                                            onChange={(e) => updateRate(model, field.key, e.target.value)}
+                                            className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-right font-mono text-slate-300 outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Star, Volume2, Loader2, Languages, ChevronDown, ChevronUp } from 'lucide-react';
+import { VoiceOption } from '../types';
+import { LANGUAGE_NAMES, getVoicePreviewUrl, sortVoices } from '../services/voices';
+
+interface VoicePickerProps {
+    language: string; // Language of the open document
+    favorites: string[];
+    languageDefault: string; // Voice a new narration of this document starts with
+    disabled: boolean;
+    onSelect: (voiceName: string) => void;
+    onToggleFavorite: (voiceName: string) => void;
+    onSetLanguageDefault: (voiceName: string) => void;
+}
+
+// Favourites and the language default are always shown; the rest of the
+// catalogue is folded away.
+const COLLAPSED_COUNT = 6;
+
+const VoicePicker: React.FC<VoicePickerProps> = ({
+    language,
+    favorites,
+    languageDefault,
+    disabled,
+    onSelect,
+    onToggleFavorite,
+    onSetLanguageDefault
+}) => {
+    const [expanded, setExpanded] = useState(false);
+    const [previewing, setPreviewing] = useState<string | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+    useEffect(() => () => previewAudioRef.current?.pause(), []);
+
+    const voices = sortVoices(favorites);
+    const pinned = voices.filter(v => favorites.includes(v.geminiVoiceName) || v.geminiVoiceName === languageDefault);
+    const visible = expanded ? voices : [...pinned, ...voices.filter(v => !pinned.includes(v))].slice(0, Math.max(COLLAPSED_COUNT, pinned.length));
+    const languageName = LANGUAGE_NAMES[language] ?? language;
+
+    const playPreview = async (voice: VoiceOption) => {
+        previewAudioRef.current?.pause();
+        setPreviewing(voice.geminiVoiceName);
+        setPreviewError(null);
+        try {
+            const url = await getVoicePreviewUrl(voice.geminiVoiceName, language);
+            const audio = new Audio(url);
+            previewAudioRef.current = audio;
+            await audio.play();
+        } catch (err: any) {
+            setPreviewError(`Could not play ${voice.name}: ${err.message}`);
+        } finally {
+            setPreviewing(null);
+        }
+    };
+
+    return (
+        <div>
+            <h4 className="text-sm font-semibold text-slate-500 uppercase mb-3">Select Voice</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {visible.map(voice => {
+                    const isFavorite = favorites.includes(voice.geminiVoiceName);
+                    const isDefault = voice.geminiVoiceName === languageDefault;
+                    return (
+                        <div
+                            key={voice.id}
+                            className={`group relative bg-slate-800 p-4 rounded-xl border transition-all ${isDefault ? 'border-blue-500/50' : 'border-slate-700 hover:border-blue-500'}`}
+                        >
+                            <button
+                                onClick={() => onSelect(voice.geminiVoiceName)}
+                                disabled={disabled}
+                                title={`Read aloud with ${voice.name}`}
+                                className="w-full text-left disabled:opacity-50"
+                            >
+                                <h3 className="font-semibold text-white group-hover:text-blue-400 transition-colors flex items-center gap-2">
+                                    <Play size={14} fill="currentColor" className="text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                    {voice.name}
+                                </h3>
+                                <p className="text-xs text-slate-400">
+                                    {voice.description}
+                                    {isDefault && <span className="ml-2 text-[10px] uppercase text-blue-400">{languageName} default</span>}
+                                </p>
+                            </button>
+                            <div className="absolute top-3 right-3 flex items-center gap-1 text-slate-500">
+                                <button
+                                    onClick={() => playPreview(voice)}
+                                    disabled={previewing !== null}
+                                    title="Play a sample"
+                                    className="p-1 hover:text-white"
+                                >
+                                    {previewing === voice.geminiVoiceName ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+                                </button>
+                                {!isDefault && (
+                                    <button
+                                        onClick={() => onSetLanguageDefault(voice.geminiVoiceName)}
+                                        title={`Use for ${languageName} documents`}
+                                        className="p-1 hover:text-blue-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                    >
+                                        <Languages size={14} />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => onToggleFavorite(voice.geminiVoiceName)}
+                                    title={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+                                    className={`p-1 ${isFavorite ? 'text-amber-400' : 'hover:text-amber-400'}`}
+                                >
+                                    <Star size={14} fill={isFavorite ? 'currentColor' : 'none'} />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            {previewError && <p className="mt-2 text-xs text-red-400">{previewError}</p>}
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="mt-3 flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+            >
+                {expanded ? <><ChevronUp size={14} /> Show fewer voices</> : <><ChevronDown size={14} /> Show all {voices.length} voices</>}
+            </button>
+        </div>
+    );
+};
+
+export default VoicePicker;
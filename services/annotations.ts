@@ -0,0 +1,20 @@
+import { HistoryItem } from "../types";
+
+// Markdown export of a document's highlights and their notes, in reading
+// order.
+export const buildAnnotationsMarkdown = (item: HistoryItem): string => {
+  const highlights = [...(item.highlights ?? [])].sort((a, b) => a.start - b.start);
+  const lines = [`# Annotations: ${item.fileName}`, ''];
+  for (const highlight of highlights) {
+    const quote = item.text.slice(highlight.start, highlight.end).trim();
+    lines.push(...quote.split('\n').map(line => `> ${line}`), '');
+    if (highlight.note) lines.push(`**Note:** ${highlight.note}`, '');
+    lines.push('---', '');
+  }
+  return lines.join('\n');
+};
+
+export const getAnnotationsFileName = (item: HistoryItem) => {
+  const base = item.fileName.replace(/\.[^.]+$/, '');
+  return `${base}-annotations.md`;
+};
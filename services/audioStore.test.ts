@@ -0,0 +1,36 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { CachedChunk, clearTranslationAudio, getAudioUsageByItem, getLanguageCacheKey, loadItemAudio, saveCachedChunks, saveNarrationChunk } from './audioStore';
+import { memoryStorage } from './testUtils';
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+const cached = (itemId: string, voiceName: string, index = 0, bytes = 5): CachedChunk =>
+  ({ itemId, voiceName, index, start: 0, end: 10, duration: 1, blob: new Blob(['a'.repeat(bytes)]) });
+
+describe('clearTranslationAudio', () => {
+  it('clears one translation of one document and keeps the rest', async () => {
+    await saveCachedChunks([
+      cached('doc', 'Kore'),
+      cached('doc', getLanguageCacheKey('Kore', 'fr')),
+      cached('doc', getLanguageCacheKey('Puck~abc', 'fr')),
+      cached('doc', getLanguageCacheKey('Kore', 'de')),
+      cached('other', getLanguageCacheKey('Kore', 'fr')),
+    ]);
+    await clearTranslationAudio('doc', 'fr');
+    expect((await loadItemAudio('doc')).map(c => c.voiceName).sort()).toEqual(['Kore', 'Kore@de']);
+    expect((await loadItemAudio('other')).map(c => c.voiceName)).toEqual(['Kore@fr']);
+  });
+});
+
+describe('getAudioUsageByItem', () => {
+  it('adds up the bytes stored for each document', async () => {
+    await saveCachedChunks([cached('usage-a', 'Kore', 0, 100), cached('usage-a', 'Kore', 1, 50), cached('usage-b', 'Puck', 0, 7)]);
+    await saveNarrationChunk(cached('usage-a', 'Puck', 0, 3));
+    const usage = await getAudioUsageByItem();
+    expect(usage['usage-a']).toBe(153);
+    expect(usage['usage-b']).toBe(7);
+  });
+});
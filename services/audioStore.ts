@@ -0,0 +1,112 @@
+import { NarrationChunk } from "../types";
+import { AUDIO_STORE, withStore } from "./db";
+import { splitTextIntoChunks } from "./narration";
+
+// Generated narration audio, cached per document, voice and chunk so that
+// reopening a library item does not need another TTS call.
+export interface CachedChunk {
+  itemId: string;
+  voiceName: string;
+  index: number;
+  start: number;
+  end: number;
+  duration: number;
+  blob: Blob;
+}
+
+// Records also keep the blob's size, for getAudioUsageByItem
+const toRecord = (chunk: CachedChunk) => ({ ...chunk, size: chunk.blob.size });
+
+const itemRange = (itemId: string) => IDBKeyRange.bound([itemId], [itemId, []]);
+
+export const saveNarrationChunk = async (chunk: CachedChunk): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.put(toRecord(chunk)));
+};
+
+export const loadNarrationChunks = (itemId: string, voiceName: string): Promise<CachedChunk[]> => {
+  return withStore(AUDIO_STORE, 'readonly', store =>
+    store.getAll(IDBKeyRange.bound([itemId, voiceName, 0], [itemId, voiceName, Infinity]))
+  );
+};
+
+// Every cached chunk of a document, for all voices.
+export const loadItemAudio = (itemId: string): Promise<CachedChunk[]> => {
+  return withStore(AUDIO_STORE, 'readonly', store => store.getAll(itemRange(itemId)));
+};
+
+export const saveCachedChunks = async (chunks: CachedChunk[]): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => {
+    chunks.forEach(chunk => store.put(toRecord(chunk)));
+  });
+};
+
+export const clearItemAudio = async (itemId: string): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.delete(itemRange(itemId)));
+};
+
+// Narration of a translation is cached apart from the original's, under
+// the cache key with the translation's language appended.
+export const getLanguageCacheKey = (cacheKey: string, language: string | null): string => {
+  return language ? `${cacheKey}@${language}` : cacheKey;
+};
+
+// Clears the cached narration of one translation of a document, for all
+// voices.
+export const clearTranslationAudio = async (itemId: string, language: string): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => {
+    const request = store.openCursor(itemRange(itemId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as CachedChunk).voiceName.endsWith(`@${language}`)) cursor.delete();
+      cursor.continue();
+    };
+  });
+};
+
+// Bytes of cached audio per HistoryItem id. Walks the size index's keys,
+// so no audio is read.
+export const getAudioUsageByItem = async (): Promise<Record<string, number>> => {
+  const usage: Record<string, number> = {};
+  await withStore(AUDIO_STORE, 'readonly', store => {
+    const request = store.index('size').openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const [itemId] = cursor.primaryKey as [string, string, number];
+      usage[itemId] = (usage[itemId] ?? 0) + (cursor.key as number);
+      cursor.continue();
+    };
+  });
+  return usage;
+};
+
+// Splits the document into narration chunks and marks every chunk that has
+// cached audio for this voice as ready. Chunks whose offsets no longer match
+// (e.g. the chunking changed) are ignored and will be regenerated.
+export const restoreNarration = async (
+  itemId: string,
+  voiceName: string,
+  text: string,
+  boundaries: number[] = []
+): Promise<NarrationChunk[]> => {
+  const chunks = splitTextIntoChunks(text, boundaries);
+  let cached: CachedChunk[] = [];
+  try {
+    cached = await loadNarrationChunks(itemId, voiceName);
+  } catch (err) {
+    console.error(err); // IndexedDB unavailable: fall back to generating everything
+  }
+
+  for (const entry of cached) {
+    const chunk = chunks[entry.index];
+    if (!chunk || chunk.start !== entry.start || chunk.end !== entry.end) continue;
+    chunks[entry.index] = {
+      ...chunk,
+      status: 'ready',
+      audioUrl: URL.createObjectURL(entry.blob),
+      duration: entry.duration,
+    };
+  }
+  return chunks;
+};
@@ -0,0 +1,53 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types';
+import { buildAudiobook } from './audiobook';
+import { pcmToWav, readWav } from './utils';
+
+const SAMPLE_RATE = 8000;
+
+// Three one-second chunks, each filled with its own index
+const chunks = [0, 1, 2].map(index => ({
+  start: index * 10,
+  end: index * 10 + 10,
+  blob: pcmToWav({ samples: new Int16Array(SAMPLE_RATE).fill(index), sampleRate: SAMPLE_RATE }),
+}));
+
+// A chapter that starts halfway through the second chunk
+const item: HistoryItem = {
+  id: 'doc', fileName: 'Book.pdf', uploadDate: 0, text: 'x'.repeat(30), language: 'en', lastPosition: 0,
+  bookmarks: [{ id: 'b1', time: 1.5, label: 'Middle' }],
+};
+
+const readSamples = async (blob: Blob) => Array.from(readWav(new Uint8Array(await blob.arrayBuffer())).samples);
+
+describe('buildAudiobook', () => {
+  it('writes every chunk in order into one WAV', async () => {
+    const file = await buildAudiobook(item, chunks, { format: 'wav', chapters: 'bookmarks', splitChapters: false }, () => {});
+    expect(file.fileName).toBe('Book.wav');
+    const bytes = new Uint8Array(await file.blob.arrayBuffer());
+    expect(new DataView(bytes.buffer).getUint32(4, true)).toBe(bytes.length - 8);
+    const samples = await readSamples(file.blob);
+    expect(samples.length).toBe(3 * SAMPLE_RATE);
+    expect([samples[0], samples[SAMPLE_RATE], samples[3 * SAMPLE_RATE - 1]]).toEqual([0, 1, 2]);
+  });
+
+  it('splits the audio where a chapter starts, even inside a chunk', async () => {
+    const file = await buildAudiobook(item, chunks, { format: 'wav', chapters: 'bookmarks', splitChapters: true }, () => {});
+    expect(file.fileName).toBe('Book (audiobook).zip');
+    const zip = await JSZip.loadAsync(await file.blob.arrayBuffer());
+    expect(Object.keys(zip.files)).toEqual(['01 - Introduction.wav', '02 - Middle.wav']);
+    const parts = await Promise.all(Object.values(zip.files).map(async entry => readSamples(new Blob([await entry.async('uint8array')]))));
+    expect(parts.map(p => p.length)).toEqual([1.5 * SAMPLE_RATE, 1.5 * SAMPLE_RATE]);
+    expect([parts[0][SAMPLE_RATE - 1], parts[0][SAMPLE_RATE], parts[1][0], parts[1][SAMPLE_RATE / 2]]).toEqual([0, 1, 1, 2]);
+  });
+
+  it('encodes MP3 with the chapters in its ID3 tag', async () => {
+    const file = await buildAudiobook(item, chunks, { format: 'mp3', chapters: 'bookmarks', splitChapters: false }, () => {});
+    const bytes = new Uint8Array(await file.blob.arrayBuffer());
+    const text = new TextDecoder('latin1').decode(bytes.subarray(0, 200));
+    expect(text.startsWith('ID3')).toBe(true);
+    expect(text.match(/CHAP/g)).toHaveLength(2);
+    expect(bytes.length).toBeGreaterThan(1000);
+  });
+});
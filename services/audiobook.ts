@@ -0,0 +1,345 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import JSZip from "jszip";
+import { HistoryItem } from "../types";
+import { getTimeForOffset } from "./narration";
+import { RequestCancelledError } from "./request";
+import { DEFAULT_PCM_FORMAT, PcmAudio, readWav, resample } from "./utils";
+
+// Renders a narrated document into one audio file (or one per chapter),
+// entirely in the browser. Chunks are decoded to 16-bit PCM one at a time
+// and written as WAV or encoded to MP3 as they come, with the chapters as
+// cue points (WAV) or ID3 chapter frames (MP3).
+
+export type AudiobookFormat = 'wav' | 'mp3';
+export type ChapterSource = 'sections' | 'bookmarks' | 'none';
+
+export interface AudiobookOptions {
+  format: AudiobookFormat;
+  chapters: ChapterSource;
+  splitChapters: boolean; // One file per chapter, zipped together
+}
+
+export interface AudiobookChapter {
+  title: string;
+  time: number; // Seconds from the start of the narration
+}
+
+const MP3_KBPS = 64;
+// Samples per MP3 encoder call; the encoder yields to the UI between calls
+const MP3_BLOCK_SAMPLES = 1152 * 64;
+
+// --- Decoding ---
+
+// Chunk audio is always a WAV file
+const decodeChunkAudio = async (blob: Blob): Promise<PcmAudio> => {
+  return readWav(new Uint8Array(await blob.arrayBuffer()));
+};
+
+// --- Chapters ---
+
+// Chapters from the document's top-level headings, or from its bookmarks.
+// Narration chunks always start at section starts, so a chapter starts
+// where its first chunk does.
+export const getAudiobookChapters = (
+  item: HistoryItem,
+  source: ChapterSource,
+  chunks: { start: number; end: number }[],
+  chunkDurations: number[]
+): AudiobookChapter[] => {
+  const chunkStartTime = (index: number) => chunkDurations.slice(0, index).reduce((sum, d) => sum + d, 0);
+  let chapters: AudiobookChapter[] = [];
+
+  if (source === 'sections') {
+    const sections = item.sections ?? [];
+    const topLevel = Math.min(...sections.map(s => s.level));
+    chapters = sections
+      .filter(section => section.level === topLevel)
+      .map(section => {
+        const index = chunks.findIndex(c => section.start < c.end);
+        return { title: section.title, time: index >= 0 ? chunkStartTime(index) : 0 };
+      });
+  } else if (source === 'bookmarks') {
+    // Text anchors survive a change of voice; the stored time may not
+    chapters = item.bookmarks.map(bookmark => ({
+      title: bookmark.label,
+      time: (bookmark.textOffset !== undefined ? getTimeForOffset(item.timingMap ?? [], bookmark.textOffset) : null) ?? bookmark.time,
+    }));
+  }
+
+  chapters = chapters.sort((a, b) => a.time - b.time).filter((c, i, all) => i === 0 || c.time > all[i - 1].time);
+  // Audio before the first marker gets a chapter of its own
+  if (chapters.length > 0 && chapters[0].time > 0) chapters.unshift({ title: 'Introduction', time: 0 });
+  return chapters;
+};
+
+// --- WAV ---
+
+const writeAscii = (bytes: Uint8Array, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) bytes[offset + i] = value.charCodeAt(i) & 0x7f;
+};
+
+// A RIFF sub-chunk, padded to an even length
+const riffChunk = (tag: string, body: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + body.length + (body.length % 2));
+  writeAscii(chunk, 0, tag);
+  new DataView(chunk.buffer).setUint32(4, body.length, true);
+  chunk.set(body, 8);
+  return chunk;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const zeroTerminated = (value: string) => new TextEncoder().encode(`${value}\0`);
+
+// Everything of a mono 16-bit WAV up to its samples: the title in a
+// LIST/INFO chunk, the chapters as labelled cue points, which audio editors
+// show as markers, and the header of the data chunk.
+const buildWavHeader = (sampleCount: number, sampleRate: number, title: string, chapters: AudiobookChapter[]): Uint8Array => {
+  const fmt = new Uint8Array(16);
+  const fmtView = new DataView(fmt.buffer);
+  fmtView.setUint16(0, 1, true); // PCM
+  fmtView.setUint16(2, 1, true); // Mono
+  fmtView.setUint32(4, sampleRate, true);
+  fmtView.setUint32(8, sampleRate * 2, true);
+  fmtView.setUint16(12, 2, true);
+  fmtView.setUint16(14, 16, true);
+
+  const chunks = [riffChunk('fmt ', fmt), riffChunk('LIST', concatBytes([new TextEncoder().encode('INFO'), riffChunk('INAM', zeroTerminated(title))]))];
+  if (chapters.length > 0) {
+    const cue = new Uint8Array(4 + chapters.length * 24);
+    const cueView = new DataView(cue.buffer);
+    cueView.setUint32(0, chapters.length, true);
+    chapters.forEach((chapter, i) => {
+      const base = 4 + i * 24;
+      const position = Math.round(chapter.time * sampleRate);
+      cueView.setUint32(base, i + 1, true); // Cue id
+      cueView.setUint32(base + 4, position, true);
+      writeAscii(cue, base + 8, 'data');
+      cueView.setUint32(base + 20, position, true); // Sample offset
+    });
+    const labels = chapters.map((chapter, i) => {
+      const text = zeroTerminated(chapter.title);
+      const body = new Uint8Array(4 + text.length);
+      new DataView(body.buffer).setUint32(0, i + 1, true);
+      body.set(text, 4);
+      return riffChunk('labl', body);
+    });
+    chunks.push(riffChunk('cue ', cue), riffChunk('LIST', concatBytes([new TextEncoder().encode('adtl'), ...labels])));
+  }
+
+  // 16-bit samples never need a pad byte
+  const body = concatBytes(chunks);
+  const header = new Uint8Array(12);
+  writeAscii(header, 0, 'RIFF');
+  new DataView(header.buffer).setUint32(4, 4 + body.length + 8 + sampleCount * 2, true);
+  writeAscii(header, 8, 'WAVE');
+  const dataHeader = new Uint8Array(8);
+  writeAscii(dataHeader, 0, 'data');
+  new DataView(dataHeader.buffer).setUint32(4, sampleCount * 2, true);
+  return concatBytes([header, body, dataHeader]);
+};
+
+// --- MP3 ---
+
+// ID3v2.3 text is written as UTF-16 with a byte order mark, so titles in
+// any language survive.
+const id3Text = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(3 + value.length * 2);
+  bytes[0] = 1; // UTF-16
+  bytes[1] = 0xff;
+  bytes[2] = 0xfe;
+  for (let i = 0; i < value.length; i++) {
+    bytes[3 + i * 2] = value.charCodeAt(i) & 0xff;
+    bytes[4 + i * 2] = value.charCodeAt(i) >> 8;
+  }
+  return bytes;
+};
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array => {
+  const frame = new Uint8Array(10 + body.length);
+  writeAscii(frame, 0, id);
+  new DataView(frame.buffer).setUint32(4, body.length); // ID3v2.3 frame sizes are plain big-endian
+  frame.set(body, 10);
+  return frame;
+};
+
+// ID3v2.3 tag with the title, the track number for split files, and CHAP
+// and CTOC frames for the chapters (the ID3 chapter addendum).
+const buildId3Tag = (title: string, album: string | null, track: number | null, chapters: AudiobookChapter[], duration: number): Uint8Array => {
+  // CTOC stores the number of entries in a single byte
+  chapters = chapters.slice(0, 255);
+  const frames = [id3Frame('TIT2', id3Text(title))];
+  if (album) frames.push(id3Frame('TALB', id3Text(album)));
+  if (track !== null) frames.push(id3Frame('TRCK', id3Text(String(track))));
+  if (chapters.length > 0) {
+    const ids = chapters.map((_, i) => `ch${i}`);
+    const toc = concatBytes([
+      zeroTerminated('toc'),
+      new Uint8Array([0x03, chapters.length]), // Top-level, ordered
+      ...ids.map(zeroTerminated),
+    ]);
+    frames.push(id3Frame('CTOC', toc));
+    chapters.forEach((chapter, i) => {
+      const times = new Uint8Array(16);
+      const view = new DataView(times.buffer);
+      view.setUint32(0, Math.round(chapter.time * 1000));
+      view.setUint32(4, Math.round((chapters[i + 1]?.time ?? duration) * 1000));
+      view.setUint32(8, 0xffffffff); // No byte offsets
+      view.setUint32(12, 0xffffffff);
+      frames.push(id3Frame('CHAP', concatBytes([zeroTerminated(ids[i]), times, id3Frame('TIT2', id3Text(chapter.title))])));
+    });
+  }
+  const body = concatBytes(frames);
+  const header = new Uint8Array(10);
+  writeAscii(header, 0, 'ID3');
+  header[3] = 3; // Version 2.3
+  // Tag size is stored as a "syncsafe" integer, seven bits per byte
+  for (let i = 0; i < 4; i++) header[6 + i] = (body.length >> (7 * (3 - i))) & 0x7f;
+  return concatBytes([header, body]);
+};
+
+const yieldToUI = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// --- Writers ---
+
+// One output file, written as the samples arrive. Only the encoded bytes
+// are kept, as blobs the browser may move out of memory.
+interface AudioFileWriter {
+  write: (samples: Int16Array) => Promise<void>;
+  finish: () => Blob;
+}
+
+const createWavWriter = (header: Uint8Array): AudioFileWriter => {
+  const parts: BlobPart[] = [header];
+  return {
+    write: async samples => {
+      parts.push(new Blob([new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength)]));
+    },
+    finish: () => new Blob(parts, { type: 'audio/wav' }),
+  };
+};
+
+const createMp3Writer = (sampleRate: number, tag: Uint8Array, signal?: AbortSignal): AudioFileWriter => {
+  const encoder = new Mp3Encoder(1, sampleRate, MP3_KBPS);
+  const parts: BlobPart[] = [tag];
+  return {
+    write: async samples => {
+      for (let offset = 0; offset < samples.length; offset += MP3_BLOCK_SAMPLES) {
+        if (signal?.aborted) throw new RequestCancelledError();
+        parts.push(new Uint8Array(encoder.encodeBuffer(samples.subarray(offset, offset + MP3_BLOCK_SAMPLES))));
+        await yieldToUI();
+      }
+    },
+    finish: () => {
+      parts.push(new Uint8Array(encoder.flush()));
+      return new Blob(parts, { type: 'audio/mpeg' });
+    },
+  };
+};
+
+// --- Export ---
+
+export interface AudiobookProgress {
+  stage: 'decoding' | 'encoding';
+  fraction: number; // 0 to 1
+}
+
+export interface AudiobookFile {
+  blob: Blob;
+  fileName: string;
+}
+
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '').trim() || 'Untitled';
+
+export const getAudiobookBaseName = (item: HistoryItem) => sanitizeFileName(item.fileName.replace(/\.[^.]+$/, ''));
+
+// Builds the audiobook from the audio of every narration chunk, in order.
+// Returns one file, or a zip of one file per chapter when splitting. The
+// chunks are read twice: once to measure them, for the chapter times and
+// file headers, and once to write them.
+export const buildAudiobook = async (
+  item: HistoryItem,
+  chunks: { start: number; end: number; blob: Blob }[],
+  options: AudiobookOptions,
+  onProgress: (progress: AudiobookProgress) => void,
+  signal?: AbortSignal
+): Promise<AudiobookFile> => {
+  let sampleRate = DEFAULT_PCM_FORMAT.sampleRate;
+  const lengths: number[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    if (signal?.aborted) throw new RequestCancelledError();
+    const audio = await decodeChunkAudio(chunk.blob);
+    if (i === 0) sampleRate = audio.sampleRate;
+    lengths.push(resample(audio, sampleRate).length);
+    onProgress({ stage: 'decoding', fraction: (i + 1) / chunks.length });
+  }
+
+  const totalSamples = lengths.reduce((sum, length) => sum + length, 0);
+  const duration = totalSamples / sampleRate;
+  const chapters = getAudiobookChapters(item, options.chapters, chunks, lengths.map(length => length / sampleRate))
+    .filter(chapter => chapter.time < duration);
+  const title = item.fileName.replace(/\.[^.]+$/, '');
+  const baseName = getAudiobookBaseName(item);
+
+  // Files to write, as sample ranges: the whole book, or one per chapter
+  const sections = options.splitChapters && chapters.length > 1
+    ? chapters.map((chapter, i) => ({
+      chapter,
+      start: Math.round(chapter.time * sampleRate),
+      end: i + 1 < chapters.length ? Math.round(chapters[i + 1].time * sampleRate) : totalSamples,
+    }))
+    : [{ chapter: null, start: 0, end: totalSamples }];
+
+  const openWriter = (i: number): AudioFileWriter => {
+    const section = sections[i];
+    const sampleCount = section.end - section.start;
+    const sectionTitle = section.chapter ? section.chapter.title : title;
+    const sectionChapters = section.chapter ? [] : chapters;
+    if (options.format === 'mp3') {
+      const tag = buildId3Tag(sectionTitle, section.chapter ? title : null, section.chapter ? i + 1 : null, sectionChapters, sampleCount / sampleRate);
+      return createMp3Writer(sampleRate, tag, signal);
+    }
+    return createWavWriter(buildWavHeader(sampleCount, sampleRate, section.chapter ? `${title} - ${sectionTitle}` : title, sectionChapters));
+  };
+  const getFileName = (i: number) => {
+    const chapter = sections[i].chapter;
+    return chapter
+      ? `${String(i + 1).padStart(2, '0')} - ${sanitizeFileName(chapter.title)}.${options.format}`
+      : `${baseName}.${options.format}`;
+  };
+
+  // Each chunk is decoded again and handed on, split where a file ends
+  const files: AudiobookFile[] = [];
+  let current = 0;
+  let writer = openWriter(current);
+  let written = 0;
+  for (const chunk of chunks) {
+    if (signal?.aborted) throw new RequestCancelledError();
+    let samples = resample(await decodeChunkAudio(chunk.blob), sampleRate);
+    while (samples.length > 0) {
+      const count = Math.min(samples.length, sections[current].end - written);
+      await writer.write(samples.subarray(0, count));
+      samples = samples.subarray(count);
+      written += count;
+      if (written >= sections[current].end && current + 1 < sections.length) {
+        files.push({ blob: writer.finish(), fileName: getFileName(current) });
+        writer = openWriter(++current);
+      }
+    }
+    onProgress({ stage: 'encoding', fraction: totalSamples > 0 ? written / totalSamples : 1 });
+  }
+  files.push({ blob: writer.finish(), fileName: getFileName(current) });
+
+  if (files.length === 1) return files[0];
+  const zip = new JSZip();
+  for (const file of files) zip.file(file.fileName, file.blob);
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${baseName} (audiobook).zip` };
+};
@@ -0,0 +1,31 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { getAudioUsageByItem } from './audioStore';
+import { memoryStorage } from './testUtils';
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+// Audio cached by version 6, before records kept their size
+const createVersion6Audio = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('omnireader', 6);
+  request.onupgradeneeded = () => {
+    const audio = request.result.createObjectStore('audio', { keyPath: ['itemId', 'voiceName', 'index'] });
+    audio.createIndex('itemId', 'itemId');
+    audio.put({ itemId: 'doc', voiceName: 'Kore', index: 0, start: 0, end: 10, duration: 1, blob: new Blob(['12345']) });
+    audio.put({ itemId: 'doc', voiceName: 'Kore', index: 1, start: 10, end: 20, duration: 1, blob: new Blob(['123']) });
+  };
+  request.onsuccess = () => {
+    request.result.close();
+    resolve();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+describe('upgrade to version 7', () => {
+  it('records the size of audio cached before', async () => {
+    await createVersion6Audio();
+    expect(await getAudioUsageByItem()).toEqual({ doc: 8 });
+  });
+});
@@ -0,0 +1,140 @@
+// Shared IndexedDB access. Every persistent store the app uses lives in one
+// versioned database; bump DB_VERSION and add a step to `upgrade` when a
+// store is added or changed.
+
+const DB_NAME = 'omnireader';
+const DB_VERSION = 7;
+
+export const AUDIO_STORE = 'audio';
+export const DOCUMENTS_STORE = 'documents';
+export const INGESTIONS_STORE = 'ingestions';
+export const USAGE_STORE = 'usage';
+export const PREVIEWS_STORE = 'previews';
+export const TRANSCRIPTS_STORE = 'transcripts';
+export const TRANSCRIPT_AUDIO_STORE = 'transcriptAudio';
+
+// Where the library lived before it moved to IndexedDB (schema v2)
+const LEGACY_HISTORY_KEY = 'omni_history';
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Clear cached audio or delete documents from the Library to free up space.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const readLegacyHistory = (): unknown[] => {
+  try {
+    const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    // Entries without an id cannot be keyed and would abort the upgrade
+    return Array.isArray(parsed) ? parsed.filter(item => typeof item?.id === 'string') : [];
+  } catch (err) {
+    console.error('Ignoring unreadable legacy history', err);
+    return [];
+  }
+};
+
+let migratedLegacyHistory = false;
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  if (oldVersion < 1) {
+    // Narration audio, one record per generated chunk
+    const audio = db.createObjectStore(AUDIO_STORE, { keyPath: ['itemId', 'voiceName', 'index'] });
+    audio.createIndex('itemId', 'itemId');
+  }
+  if (oldVersion < 2) {
+    // Library documents (HistoryItem), previously one JSON blob in localStorage
+    const documents = db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+    for (const item of readLegacyHistory()) {
+      documents.put(item);
+    }
+    migratedLegacyHistory = true;
+  }
+  if (oldVersion < 3) {
+    // Partially extracted large documents, so extraction can resume
+    db.createObjectStore(INGESTIONS_STORE, { keyPath: 'key' });
+  }
+  if (oldVersion < 4) {
+    // Token and character usage of every model call
+    const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+    usage.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 5) {
+    // Short voice samples, one per voice and language
+    db.createObjectStore(PREVIEWS_STORE, { keyPath: ['voiceName', 'language'] });
+  }
+  if (oldVersion < 6) {
+    // Saved transcripts, and their recordings apart so listing stays light
+    db.createObjectStore(TRANSCRIPTS_STORE, { keyPath: 'id' });
+    db.createObjectStore(TRANSCRIPT_AUDIO_STORE, { keyPath: 'id' });
+  }
+  if (oldVersion < 7) {
+    // Byte size of each audio record, indexed so that usage is summed
+    // without reading the audio itself
+    const audio = tx.objectStore(AUDIO_STORE);
+    audio.createIndex('size', 'size');
+    const cursorRequest = audio.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, size: cursor.value.blob.size });
+      cursor.continue();
+    };
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => {
+        // The upgrade transaction has committed, so the old copy can go
+        if (migratedLegacyHistory) localStorage.removeItem(LEGACY_HISTORY_KEY);
+        // Let a newer version of the app in another tab upgrade the schema
+        request.result.onversionchange = () => {
+          request.result.close();
+          dbPromise = null;
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toStorageError = (error: DOMException | null): Error => {
+  if (error?.name === 'QuotaExceededError') return new StorageQuotaError();
+  return error ?? new Error('Storage request failed.');
+};
+
+// Runs a single request against one store and resolves with its result once
+// the transaction has committed.
+export const withStore = async <T = undefined>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onabort = () => reject(toStorageError(tx.error));
+    tx.onerror = () => reject(toStorageError(tx.error));
+  });
+};
+
+// Origin-wide usage as reported by the browser, or null where unsupported.
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
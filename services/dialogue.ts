@@ -0,0 +1,196 @@
+import { DialogueLine, DialogueSpan, SpeakerVoice } from "../types";
+import { attributeDialogue, generateSpeech } from "./geminiService";
+import { SynthesizedAudio, TextRange, loadSpeechAudio, splitTextIntoChunks } from "./narration";
+import { RequestOptions } from "./request";
+import { DEFAULT_NARRATION_STYLE, SpeechDelivery, applyLexicon, withStyleInstruction } from "./speechStyle";
+import { SpeechAudio } from "./utils";
+import { VOICE_CATALOGUE } from "./voices";
+
+// Multi-speaker narration: the model attributes each line of dialogue to a
+// character, the user gives every character a voice, and each chunk is
+// read as a script with the narrator's voice for everything else.
+
+export const NARRATOR = 'Narrator';
+
+// Narrations read with a cast are cached under a voice key that lists the
+// assignments, so changing a voice generates the audio again.
+const CAST_KEY_PREFIX = 'cast:';
+
+// Gemini reads at most two speakers per request
+const MAX_SPEAKERS_PER_REQUEST = 2;
+
+// Labels in the script sent to the model. Character names are not used, as
+// they may contain anything (including the ":" that ends a label).
+const SCRIPT_LABELS = ['Speaker1', 'Speaker2'];
+
+const UNKNOWN_SPEAKERS = ['unknown', NARRATOR.toLowerCase()];
+
+export interface SpeakerTurn {
+  speaker: string; // Character name, or NARRATOR
+  text: string;
+}
+
+// Text worth sending: narration left between two quotes is often just
+// punctuation.
+const isSpeakable = (text: string) => /[\p{L}\p{N}]/u.test(text);
+
+// Characters in order of how many lines they speak.
+export const listCharacters = (spans: DialogueSpan[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const span of spans) counts.set(span.speaker, (counts.get(span.speaker) ?? 0) + 1);
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)!);
+};
+
+// Finds each attributed line in the chunk, in order. Lines the model did
+// not copy exactly, or did not attribute, are read by the narrator.
+const locateLines = (text: string, range: TextRange, lines: DialogueLine[], known: string[]): DialogueSpan[] => {
+  const spans: DialogueSpan[] = [];
+  let cursor = range.start;
+  for (const line of lines) {
+    const quote = line.quote?.trim().replace(/^["“”«»'‘’—–-]+|["“”«»'‘’—–-]+$/g, '').trim();
+    const name = line.speaker?.trim();
+    if (!quote || !name || UNKNOWN_SPEAKERS.includes(name.toLowerCase())) continue;
+    const start = text.indexOf(quote, cursor);
+    if (start < 0 || start + quote.length > range.end) continue;
+    // Keep the spelling a character was first given
+    const speaker = known.find(k => k.toLowerCase() === name.toLowerCase()) ?? name;
+    if (!known.includes(speaker)) known.push(speaker);
+    spans.push({ start, end: start + quote.length, speaker });
+    cursor = start + quote.length;
+  }
+  return spans;
+};
+
+// Attributes the dialogue of a whole document, one narration chunk at a
+// time so each request stays small. Names found so far are passed on, so a
+// character keeps one name throughout.
+export const detectDialogue = async (
+  text: string,
+  boundaries: number[],
+  onProgress: (done: number, total: number) => void,
+  options: RequestOptions = {}
+): Promise<DialogueSpan[]> => {
+  const chunks = splitTextIntoChunks(text, boundaries);
+  const spans: DialogueSpan[] = [];
+  const known: string[] = [];
+  for (const chunk of chunks) {
+    onProgress(chunk.index, chunks.length);
+    const lines = await attributeDialogue(chunk.text, [...known], options);
+    spans.push(...locateLines(text, chunk, lines, known));
+  }
+  return spans;
+};
+
+// Gives the narrator the document's voice and each character a different
+// voice, keeping any choice already made.
+export const assignDefaultVoices = (
+  characters: string[],
+  narratorVoice: string,
+  current: Record<string, string> = {}
+): Record<string, string> => {
+  const voices: Record<string, string> = { [NARRATOR]: current[NARRATOR] ?? narratorVoice };
+  const used = new Set([voices[NARRATOR], ...characters.map(c => current[c]).filter(Boolean)]);
+  const free = VOICE_CATALOGUE.map(v => v.geminiVoiceName).filter(v => !used.has(v));
+  characters.forEach((character, i) => {
+    voices[character] = current[character] ?? free[i % free.length] ?? voices[NARRATOR];
+  });
+  return voices;
+};
+
+export const getCastVoiceKey = (voices: Record<string, string>): string => {
+  const entries = Object.entries(voices).sort(([a], [b]) => a.localeCompare(b));
+  return CAST_KEY_PREFIX + entries.map(([speaker, voice]) => `${speaker}=${voice}`).join(';');
+};
+
+export const isCastVoiceKey = (voiceName: string): boolean => voiceName.startsWith(CAST_KEY_PREFIX);
+
+// The assignments a cast voice key was built from. Names containing "=" or
+// ";" are not expected, as they come from the model's attribution.
+export const parseCastVoiceKey = (voiceName: string): Record<string, string> => {
+  const voices: Record<string, string> = {};
+  for (const entry of voiceName.slice(CAST_KEY_PREFIX.length).split(';')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator > 0) voices[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+  return voices;
+};
+
+// Splits a range of the document into turns: dialogue spans for their
+// speaker, and everything between them for the narrator.
+export const buildSpeakerTurns = (text: string, range: TextRange, spans: DialogueSpan[]): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  const add = (speaker: string, part: string) => {
+    const trimmed = part.replace(/\s+/g, ' ').trim();
+    if (!isSpeakable(trimmed)) return;
+    const last = turns[turns.length - 1];
+    if (last?.speaker === speaker) last.text += ` ${trimmed}`;
+    else turns.push({ speaker, text: trimmed });
+  };
+
+  let cursor = range.start;
+  for (const span of spans) {
+    if (span.end <= range.start || span.start >= range.end) continue;
+    const start = Math.max(span.start, cursor);
+    add(NARRATOR, text.slice(cursor, start));
+    add(span.speaker, text.slice(start, Math.min(span.end, range.end)));
+    cursor = Math.min(span.end, range.end);
+  }
+  add(NARRATOR, text.slice(cursor, range.end));
+  return turns;
+};
+
+// Groups consecutive turns into requests with no more than two speakers.
+const groupTurns = (turns: SpeakerTurn[]): SpeakerTurn[][] => {
+  const groups: SpeakerTurn[][] = [];
+  let current: SpeakerTurn[] = [];
+  for (const turn of turns) {
+    const speakers = new Set([...current.map(t => t.speaker), turn.speaker]);
+    if (speakers.size > MAX_SPEAKERS_PER_REQUEST) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(turn);
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
+
+// Synthesizes one group of turns: a plain request for a single speaker, a
+// multi-speaker script for two.
+const synthesizeGroup = (
+  group: SpeakerTurn[],
+  voices: Record<string, string>,
+  options: RequestOptions,
+  delivery: SpeechDelivery
+): Promise<SpeechAudio> => {
+  const speakers = [...new Set(group.map(t => t.speaker))];
+  const voiceFor = (speaker: string) => voices[speaker] ?? voices[NARRATOR];
+  const lines = group.map(t => ({ speaker: t.speaker, text: applyLexicon(t.text, delivery.lexicon) }));
+  // Two speakers with the same voice need no script either
+  if (speakers.length === 1 || voiceFor(speakers[0]) === voiceFor(speakers[1])) {
+    const text = lines.map(l => l.text).join(' ');
+    return generateSpeech(withStyleInstruction(text, delivery.style), voiceFor(speakers[0]), options);
+  }
+  const label = (speaker: string) => SCRIPT_LABELS[speakers.indexOf(speaker)];
+  const script = lines.map(l => `${label(l.speaker)}: ${l.text}`).join('\n');
+  const speakerVoices: SpeakerVoice[] = speakers.map(speaker => ({ speaker: label(speaker), voiceName: voiceFor(speaker) }));
+  return generateSpeech(withStyleInstruction(script, delivery.style), speakerVoices, options);
+};
+
+// Synthesizes a chunk with the cast's voices. Requests are made in order,
+// so the first failure stops the rest of the chunk.
+export const synthesizeCastChunk = async (
+  text: string,
+  range: TextRange,
+  spans: DialogueSpan[],
+  voices: Record<string, string>,
+  options: RequestOptions = {},
+  delivery: SpeechDelivery = { style: DEFAULT_NARRATION_STYLE, lexicon: [] }
+): Promise<SynthesizedAudio> => {
+  const parts: SpeechAudio[] = [];
+  for (const group of groupTurns(buildSpeakerTurns(text, range, spans))) {
+    parts.push(await synthesizeGroup(group, voices, options, delivery));
+  }
+  if (parts.length === 0) throw new Error('Nothing to read in this part.');
+  return loadSpeechAudio(parts);
+};
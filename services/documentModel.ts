@@ -0,0 +1,127 @@
+import { DocumentSection, ExtractedDocument, ExtractionMethod, Footnote, PageMarker } from "../types";
+
+// Shape of the structured extraction returned by the model.
+export interface RawExtraction {
+  language?: string;
+  sections?: {
+    heading?: string;
+    level?: number;
+    page?: number;
+    paragraphs?: { text?: string; page?: number }[];
+  }[];
+  footnotes?: Footnote[];
+  headersFooters?: string[];
+}
+
+// Joins the extractions of consecutive page ranges. Page numbers in each
+// part are relative to the part, so they are shifted by its first page. A
+// part that starts without a heading continues the previous part's last
+// section.
+export const mergeExtractions = (parts: { firstPage: number; extraction: RawExtraction }[]): RawExtraction => {
+  const merged: Required<Pick<RawExtraction, 'sections' | 'footnotes' | 'headersFooters'>> = {
+    sections: [],
+    footnotes: [],
+    headersFooters: [],
+  };
+  const languages = new Map<string, number>();
+  const shift = (page: number | undefined, offset: number) => (page ? page + offset : undefined);
+
+  for (const { firstPage, extraction } of parts) {
+    const offset = firstPage - 1;
+    if (extraction.language) languages.set(extraction.language, (languages.get(extraction.language) ?? 0) + 1);
+
+    (extraction.sections ?? []).forEach((section, i) => {
+      const paragraphs = (section.paragraphs ?? []).map(p => ({ ...p, page: shift(p.page, offset) }));
+      const previous = merged.sections[merged.sections.length - 1];
+      if (i === 0 && !section.heading?.trim() && previous) {
+        previous.paragraphs = [...(previous.paragraphs ?? []), ...paragraphs];
+      } else {
+        merged.sections.push({ ...section, page: shift(section.page, offset), paragraphs });
+      }
+    });
+    merged.footnotes.push(...(extraction.footnotes ?? []).map(f => ({ ...f, page: shift(f.page, offset) })));
+    merged.headersFooters.push(...(extraction.headersFooters ?? []));
+  }
+
+  // The language detected in most parts
+  const language = [...languages.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  return { language, ...merged };
+};
+
+// Flattens a structured extraction into the narratable text, recording
+// where each heading and page starts. Footnotes and running headers/footers
+// are kept out of the text.
+export const buildStructuredDocument = (raw: RawExtraction, method: ExtractionMethod = 'gemini'): ExtractedDocument => {
+  let text = '';
+  const sections: DocumentSection[] = [];
+  const pages: PageMarker[] = [];
+
+  const append = (block: string) => {
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += block;
+    return start;
+  };
+  const markPage = (page: number | undefined, start: number) => {
+    if (page && page !== pages[pages.length - 1]?.page) pages.push({ page, start });
+  };
+
+  for (const section of raw.sections ?? []) {
+    const heading = section.heading?.trim();
+    const paragraphs = (section.paragraphs ?? []).filter(p => p.text?.trim());
+    if (heading) {
+      const start = append(heading);
+      markPage(section.page ?? paragraphs[0]?.page, start);
+      sections.push({
+        title: heading,
+        level: Math.min(Math.max(Math.round(section.level ?? 1), 1), 3),
+        page: section.page ?? paragraphs[0]?.page,
+        start,
+        end: start,
+      });
+    }
+    for (const paragraph of paragraphs) {
+      markPage(paragraph.page, append(paragraph.text!.trim()));
+    }
+  }
+
+  // A section runs until the next heading of the same or a higher level
+  sections.forEach((section, i) => {
+    const next = sections.slice(i + 1).find(s => s.level <= section.level);
+    section.end = next ? next.start : text.length;
+  });
+
+  return {
+    text,
+    language: raw.language || 'en',
+    sections,
+    pages,
+    footnotes: raw.footnotes ?? [],
+    skippedHeaderFooterLines: raw.headersFooters?.length ?? 0,
+    method,
+  };
+};
+
+// The section that contains a text offset, preferring the most specific.
+export const findSectionAt = (sections: DocumentSection[], offset: number): DocumentSection | null => {
+  let found: DocumentSection | null = null;
+  for (const section of sections) {
+    if (section.start > offset) break;
+    if (offset < section.end) found = section;
+  }
+  return found;
+};
+
+// Chapter and section starts, used as forced narration chunk boundaries so
+// that narration can start exactly at any table of contents entry.
+export const getSectionBoundaries = (sections: DocumentSection[] | undefined): number[] => {
+  return (sections ?? []).map(s => s.start);
+};
+
+// Where the chapter containing a text offset ends: the start of the next
+// top-level section, or the end of the text.
+export const getChapterEnd = (sections: DocumentSection[] | undefined, offset: number, textLength: number): number => {
+  const all = sections ?? [];
+  const topLevel = Math.min(...all.map(s => s.level));
+  return all.find(s => s.level === topLevel && s.start > offset)?.start ?? textLength;
+};
@@ -1,153 +1,134 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { ImageSize } from "../types";
+import { ActionItem, DialogueLine, ExtractedDocument, ImageSize, SpeakerVoice, SummaryLength, Transcript } from "../types";
+import { buildStructuredDocument, RawExtraction } from "./documentModel";
+import { getProvider } from "./providers";
+import { RequestOptions } from "./request";
+import { SpeechAudio } from "./utils";
 
-// Helper to check API Key
-const getAI = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found in environment variables.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+// Model calls used by the app. Each one goes through the active provider
+// (Gemini, or the mock in development and tests).
+
+export { getLiveClient } from "./providers";
 
 // 1. Text Extraction (for Reader)
-export const extractTextFromDocument = async (
+// Returns the model's structured output as-is, so that parts of a large
+// document can be merged before it is flattened.
+export const extractDocumentStructure = (
   fileBase64: string,
-  mimeType: string
-): Promise<{ text: string; language: string }> => {
-  const ai = getAI();
-  
-  // We use Flash 3 to "read" the document first
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: fileBase64,
-          },
-        },
-        {
-          text: `Extract all legible text from this document. 
-                 Also detect the primary language (return 'es' for Spanish, 'en' for English, or others). 
-                 Return ONLY JSON in this format: { "text": "extracted text...", "language": "es" }`,
-        },
-      ],
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          text: { type: Type.STRING },
-          language: { type: Type.STRING },
-        },
-      },
-    },
-  });
+  mimeType: string,
+  options?: RequestOptions
+): Promise<RawExtraction> => {
+  return getProvider().extractDocumentStructure(fileBase64, mimeType, options);
+};
 
-  const resultText = response.text;
-  if (!resultText) throw new Error("No text extracted.");
-  return JSON.parse(resultText);
+export const extractTextFromDocument = async (
+  fileBase64: string,
+  mimeType: string,
+  options?: RequestOptions
+): Promise<ExtractedDocument> => {
+  const document = buildStructuredDocument(await extractDocumentStructure(fileBase64, mimeType, options));
+  if (!document.text) throw new Error("No text extracted.");
+  return document;
 };
 
 // 2. TTS Generation
-export const generateSpeech = async (text: string, voiceName: string): Promise<string> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName },
-        },
-      },
-    },
-  });
-
-  const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!audioData) {
-    throw new Error("Failed to generate speech audio.");
-  }
-  return audioData;
+export const generateSpeech = (text: string, voice: string | SpeakerVoice[], options?: RequestOptions): Promise<SpeechAudio> => {
+  return getProvider().generateSpeech(text, voice, options);
 };
 
 // 3. Audio Transcription
-export const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: audioBase64,
-          },
-        },
-        {
-          text: "Please transcribe this audio accurately.",
-        },
-      ],
-    },
-  });
-
-  return response.text || "Transcription failed.";
+// Segments come back sorted, with times clamped so each ends after it starts.
+export const transcribeAudio = async (
+  audioBase64: string,
+  mimeType: string,
+  knownSpeakers: string[] = [],
+  options?: RequestOptions
+): Promise<Transcript> => {
+  const transcript = await getProvider().transcribeAudio(audioBase64, mimeType, knownSpeakers, options);
+  const segments = transcript.segments
+    .filter(segment => segment.text.trim())
+    .map(segment => {
+      const start = Math.max(0, Number(segment.start) || 0);
+      return { ...segment, start, end: Math.max(start, Number(segment.end) || 0), speaker: segment.speaker.trim() || 'Unknown', text: segment.text.trim() };
+    })
+    .sort((a, b) => a.start - b.start);
+  return { language: transcript.language?.trim().toLowerCase() || '', segments };
 };
 
 // 4. Image Analysis
-export const analyzeImage = async (imageBase64: string, mimeType: string, prompt: string): Promise<string> => {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: mimeType,
-            data: imageBase64,
-          },
-        },
-        {
-          text: prompt || "Analyze this image in detail.",
-        },
-      ],
-    },
-  });
-
-  return response.text || "Analysis failed.";
+export const analyzeImage = (
+  imageBase64: string,
+  mimeType: string,
+  prompt: string,
+  options?: RequestOptions
+): Promise<string> => {
+  return getProvider().analyzeImage(imageBase64, mimeType, prompt, options);
 };
 
 // 5. Image Generation
-export const generateImage = async (prompt: string, size: ImageSize): Promise<string> => {
-  const ai = getAI();
-  
-  // Note: Only gemini-3-pro-image-preview supports imageSize config
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-image-preview",
-    contents: {
-      parts: [{ text: prompt }],
-    },
-    config: {
-      imageConfig: {
-        imageSize: size,
-      },
-    },
-  });
+export const generateImage = (prompt: string, size: ImageSize, options?: RequestOptions): Promise<string> => {
+  return getProvider().generateImage(prompt, size, options);
+};
 
-  // Extract image
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return part.inlineData.data;
+// 6. Dialogue Attribution (for multi-speaker narration)
+export const attributeDialogue = (
+  text: string,
+  knownSpeakers: string[],
+  options?: RequestOptions
+): Promise<DialogueLine[]> => {
+  return getProvider().attributeDialogue(text, knownSpeakers, options);
+};
+
+// 7. Transcript Summary, Action Items and Decisions
+// Each takes the transcript as "Speaker: text" turns.
+export const summarizeTranscript = async (text: string, length: SummaryLength, options?: RequestOptions): Promise<string> => {
+  const summary = (await getProvider().summarizeTranscript(text, length, options)).trim();
+  if (!summary) throw new Error("No summary was returned.");
+  return summary;
+};
+
+export const extractActionItems = async (text: string, options?: RequestOptions): Promise<ActionItem[]> => {
+  const items = await getProvider().extractActionItems(text, options);
+  return items
+    .map(item => ({ task: item.task?.trim() ?? '', owner: item.owner?.trim() ?? '' }))
+    .filter(item => item.task);
+};
+
+export const extractDecisions = async (text: string, options?: RequestOptions): Promise<string[]> => {
+  const decisions = await getProvider().extractDecisions(text, options);
+  return decisions.map(decision => decision.trim()).filter(Boolean);
+};
+
+// 8. Translation
+// Texts are sent in batches of about TRANSLATION_BATCH_CHARACTERS, so long
+// documents stay within the output limit. Each comes back translated, in
+// order; a batch that doesn't match one for one fails the request.
+const TRANSLATION_BATCH_CHARACTERS = 8000;
+
+export const translateTexts = async (
+  texts: string[],
+  language: string,
+  options?: RequestOptions,
+  onBatch?: (done: number, total: number) => void
+): Promise<string[]> => {
+  const batches: string[][] = [];
+  let size = 0;
+  for (const text of texts) {
+    const batch = batches[batches.length - 1];
+    if (!batch || size + text.length > TRANSLATION_BATCH_CHARACTERS) {
+      batches.push([text]);
+      size = text.length;
+    } else {
+      batch.push(text);
+      size += text.length;
     }
   }
-  
-  throw new Error("No image generated.");
-};
 
-export const getLiveClient = () => {
-    return getAI();
-}
+  const translated: string[] = [];
+  for (const [i, batch] of batches.entries()) {
+    onBatch?.(i, batches.length);
+    const result = await getProvider().translateTexts(batch, language, options);
+    if (result.length !== batch.length) throw new Error("The translation did not match the original text.");
+    translated.push(...result.map(text => String(text).trim()));
+  }
+  return translated;
+};
@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { PDFDocument } from 'pdf-lib';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { IngestionProgress, ingestDocument, listIngestionJobs } from './ingestion';
+import { MOCK_EXTRACTION, mockProvider, setProvider } from './providers';
+import { ServerError } from './request';
+import { memoryStorage } from './testUtils';
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Long enough to be extracted in three parts of 20 pages
+const createPdf = async (pageCount: number) => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage();
+  return new File([await pdf.save()], 'book.pdf', { type: 'application/pdf' });
+};
+
+describe('ingestDocument', () => {
+  it('waits for the other parts and reports nothing more once one part fails', async () => {
+    // The second part fails while the first and third are still running
+    let calls = 0;
+    setProvider({
+      ...mockProvider,
+      extractDocumentStructure: async () => {
+        const call = ++calls;
+        if (call === 2) {
+          await delay(5);
+          throw new ServerError();
+        }
+        await delay(30);
+        return structuredClone(MOCK_EXTRACTION);
+      },
+    });
+
+    const progress: IngestionProgress[] = [];
+    const error = await ingestDocument(await createPdf(60), p => progress.push(p)).catch(err => err);
+    const reportedBeforeFailing = progress.length;
+    await delay(60);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(calls).toBe(3);
+    expect(progress.length).toBe(reportedBeforeFailing);
+    expect(progress.map(p => p.pagesDone)).toEqual([0, 20, 40]);
+    // The parts that did finish are kept for resuming
+    const [job] = await listIngestionJobs();
+    expect(Object.keys(job.parts)).toEqual(['0', '2']);
+  });
+});
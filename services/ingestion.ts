@@ -0,0 +1,167 @@
+import { PDFDocument } from "pdf-lib";
+import { ExtractedDocument } from "../types";
+import { INGESTIONS_STORE, withStore } from "./db";
+import { RawExtraction, buildStructuredDocument, mergeExtractions } from "./documentModel";
+import { extractDocumentStructure, extractTextFromDocument } from "./geminiService";
+import { getLocalParser, parseLocalDocument } from "./localParsers";
+import { RequestOptions } from "./request";
+import { fileToBase64 } from "./utils";
+
+// Gemini accepts up to 20 MB of inline data per request, and base64 adds a
+// third on top of the raw size.
+const INLINE_LIMIT_BYTES = 14 * 1024 * 1024;
+// Keeps each part's extracted text well within the model's output limit.
+const PAGES_PER_PART = 20;
+const MAX_CONCURRENT_PARTS = 3;
+
+export interface PageRange {
+  index: number;
+  from: number; // 1-based, inclusive
+  to: number;
+}
+
+// A large PDF being extracted part by part. Saved after every part so the
+// work survives a reload.
+export interface IngestionJob {
+  key: string;
+  fileName: string;
+  pageCount: number;
+  ranges: PageRange[];
+  parts: Record<number, RawExtraction>;
+  updatedAt: number;
+}
+
+export interface IngestionProgress {
+  pagesDone: number;
+  pageCount: number;
+}
+
+// Identifies the same file when it is selected again after a reload.
+const getFileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+export const planPageRanges = (pageCount: number, pagesPerPart: number): PageRange[] => {
+  const ranges: PageRange[] = [];
+  for (let from = 1; from <= pageCount; from += pagesPerPart) {
+    ranges.push({ index: ranges.length, from, to: Math.min(from + pagesPerPart - 1, pageCount) });
+  }
+  return ranges;
+};
+
+export const listIngestionJobs = (): Promise<IngestionJob[]> => {
+  return withStore(INGESTIONS_STORE, 'readonly', store => store.getAll());
+};
+
+export const discardIngestionJob = async (key: string): Promise<void> => {
+  await withStore(INGESTIONS_STORE, 'readwrite', store => store.delete(key));
+};
+
+const loadJob = (key: string): Promise<IngestionJob | undefined> => {
+  return withStore(INGESTIONS_STORE, 'readonly', store => store.get(key));
+};
+
+const saveJob = async (job: IngestionJob): Promise<void> => {
+  try {
+    await withStore(INGESTIONS_STORE, 'readwrite', store => store.put({ ...job, updatedAt: Date.now() }));
+  } catch (err) {
+    // Losing the ability to resume should not stop the extraction itself
+    console.error('Could not save extraction progress', err);
+  }
+};
+
+const pagesIn = (range: PageRange) => range.to - range.from + 1;
+
+// Copies a page range into a standalone PDF.
+const extractPages = async (source: PDFDocument, range: PageRange): Promise<string> => {
+  const part = await PDFDocument.create();
+  const indices = Array.from({ length: pagesIn(range) }, (_, i) => range.from - 1 + i);
+  const pages = await part.copyPages(source, indices);
+  pages.forEach(page => part.addPage(page));
+  return part.saveAsBase64();
+};
+
+// Runs the worker over the items with at most `limit` in flight. After
+// the first failure no new items are started; the ones already running
+// are waited for, so none of them reports anything after this returns,
+// and then the failure is rethrown.
+const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (!failed && next < items.length) {
+      try {
+        await worker(items[next++]);
+      } catch (err) {
+        if (!failed) firstError = err;
+        failed = true;
+      }
+    }
+  });
+  await Promise.all(runners);
+  if (failed) throw firstError;
+};
+
+// Extracts a document of any size. Text, HTML, Markdown and EPUB files are
+// parsed in the browser without a model call. Other small files go to the
+// model in one request; PDFs that are too large or too long are split into page ranges
+// that are extracted in parallel and merged in order. Completed parts are
+// kept, so selecting the same file again resumes where it stopped, also
+// after the extraction was cancelled through `options.signal`.
+export const ingestDocument = async (
+  file: File,
+  onProgress: (progress: IngestionProgress) => void,
+  options: RequestOptions = {}
+): Promise<ExtractedDocument> => {
+  const localParser = getLocalParser(file);
+  if (localParser) return parseLocalDocument(file, localParser);
+  if (file.type !== 'application/pdf' && !file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not a supported document type.`);
+  }
+
+  if (file.type !== 'application/pdf') {
+    if (file.size > INLINE_LIMIT_BYTES) {
+      throw new Error(`${file.name} is too large to read in one request. Only PDFs can be split into parts.`);
+    }
+    return extractTextFromDocument(await fileToBase64(file), file.type, options);
+  }
+
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+  if (pageCount <= PAGES_PER_PART && file.size <= INLINE_LIMIT_BYTES) {
+    return extractTextFromDocument(await fileToBase64(file), file.type, options);
+  }
+
+  // Scanned books have heavy pages, so size parts by bytes as well as pages
+  const bytesPerPage = file.size / pageCount;
+  const pagesPerPart = Math.max(1, Math.min(PAGES_PER_PART, Math.floor(INLINE_LIMIT_BYTES / bytesPerPage)));
+
+  const key = getFileKey(file);
+  const job: IngestionJob = (await loadJob(key).catch(() => undefined)) ?? {
+    key,
+    fileName: file.name,
+    pageCount,
+    ranges: planPageRanges(pageCount, pagesPerPart),
+    parts: {},
+    updatedAt: Date.now(),
+  };
+  await saveJob(job);
+
+  let pagesDone = job.ranges.filter(r => job.parts[r.index]).reduce((sum, r) => sum + pagesIn(r), 0);
+  onProgress({ pagesDone, pageCount });
+
+  const remaining = job.ranges.filter(r => !job.parts[r.index]);
+  await runWithConcurrency(remaining, MAX_CONCURRENT_PARTS, async (range) => {
+    const data = await extractPages(source, range);
+    job.parts[range.index] = await extractDocumentStructure(data, 'application/pdf', options);
+    await saveJob(job);
+    pagesDone += pagesIn(range);
+    onProgress({ pagesDone, pageCount });
+  });
+
+  const document = buildStructuredDocument(
+    mergeExtractions(job.ranges.map(r => ({ firstPage: r.from, extraction: job.parts[r.index] })))
+  );
+  if (!document.text) throw new Error("No text extracted.");
+  await discardIngestionJob(key).catch(err => console.error('Could not clear extraction progress', err));
+  return document;
+};
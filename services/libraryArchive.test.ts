@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { HistoryItem } from '../types';
+import { loadItemAudio, saveCachedChunks } from './audioStore';
+import { importMissingArchiveAudio, parseLibraryArchive, planImport } from './libraryArchive';
+import { memoryStorage } from './testUtils';
+import { arrayBufferToBase64 } from './utils';
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+const archiveFile = (archive: object) => new File([JSON.stringify(archive)], 'library.json', { type: 'application/json' });
+
+const archiveOf = (items: unknown[], audio: unknown[] = []) =>
+  archiveFile({ format: 'omnireader-library', version: 1, exportedAt: 1000, items, audio });
+
+describe('parseLibraryArchive', () => {
+  it('fills in missing fields', async () => {
+    const archive = await parseLibraryArchive(archiveOf([{ text: 'Hello.' }]));
+    const [item] = archive.items;
+    expect(item).toMatchObject({ fileName: 'Imported document 1', uploadDate: 1000, text: 'Hello.', language: 'en', bookmarks: [], lastPosition: 0 });
+    expect(item.id).toEqual(expect.any(String));
+    expect(archive.audio).toEqual([]);
+  });
+
+  it('rejects documents without text or with broken bookmarks', async () => {
+    await expect(parseLibraryArchive(archiveOf([{ id: 'a', text: 'Fine.' }, { id: 'b' }]))).rejects.toThrow('Document 2 in the archive has no text');
+    await expect(parseLibraryArchive(archiveOf(['text']))).rejects.toThrow('Document 1 in the archive has no text');
+    await expect(parseLibraryArchive(archiveOf([{ text: 'Hi.', bookmarks: [{ label: 'No time' }] }]))).rejects.toThrow('invalid bookmarks');
+  });
+
+  it('rejects broken audio entries', async () => {
+    const audio = { itemId: 'a', voiceName: 'Kore', index: 0, start: 0, end: 5, duration: 1, mimeType: 'audio/wav', data: 'UklGRg==' };
+    const items = [{ id: 'a', text: 'Fine.' }];
+    await expect(parseLibraryArchive(archiveOf(items, [audio]))).resolves.toMatchObject({ audio: [audio] });
+    await expect(parseLibraryArchive(archiveOf(items, [audio, { ...audio, data: undefined }]))).rejects.toThrow('Audio entry 2 in the archive is incomplete or corrupt');
+    await expect(parseLibraryArchive(archiveOf(items, [{ ...audio, index: '0' }]))).rejects.toThrow('Audio entry 1');
+    await expect(parseLibraryArchive(archiveOf(items, [{ ...audio, voiceName: 3 }]))).rejects.toThrow('Audio entry 1');
+    await expect(parseLibraryArchive(archiveOf(items, [{ ...audio, data: 'not base64!' }]))).rejects.toThrow('Audio entry 1');
+  });
+
+  it('rejects other files', async () => {
+    await expect(parseLibraryArchive(new File(['not json'], 'a.json'))).rejects.toThrow('not an OmniReader library archive');
+    await expect(parseLibraryArchive(archiveFile({ format: 'omnireader-library', version: 2, items: [] }))).rejects.toThrow('newer version');
+  });
+});
+
+describe('planImport', () => {
+  it('sorts documents into additions, conflicts and unchanged ones', async () => {
+    const bookmark = { id: 'b1', time: 5, label: 'Here' };
+    const local = (id: string, bookmarks = [bookmark]): HistoryItem =>
+      ({ id, fileName: id, uploadDate: 0, text: 'Text.', language: 'en', bookmarks, lastPosition: 0 });
+    const archive = await parseLibraryArchive(archiveOf([
+      { id: 'new', text: 'New.' },
+      { id: 'same', text: 'Text.', bookmarks: [bookmark] },
+      { id: 'changed', text: 'Text.' },
+    ]));
+    const plan = planImport(archive, [local('same'), local('changed')]);
+    expect(plan.additions.map(i => i.id)).toEqual(['new']);
+    expect(plan.conflicts.map(c => c.local.id)).toEqual(['changed']);
+    expect(plan.unchanged.map(i => i.id)).toEqual(['same']);
+  });
+});
+
+describe('importMissingArchiveAudio', () => {
+  it('adds audio only for voices that have none cached', async () => {
+    const entry = (voiceName: string, index: number) => ({
+      itemId: 'doc', voiceName, index, start: index * 10, end: index * 10 + 10, duration: 1,
+      mimeType: 'audio/wav', data: arrayBufferToBase64(new Uint8Array([index]).buffer),
+    });
+    await saveCachedChunks([{ itemId: 'doc', voiceName: 'Kore', index: 0, start: 0, end: 10, duration: 2, blob: new Blob(['local']) }]);
+    const archive = await parseLibraryArchive(archiveOf([{ id: 'doc', text: 'Text.' }], [entry('Kore', 0), entry('Kore', 1), entry('Puck', 0)]));
+
+    await importMissingArchiveAudio(archive, ['doc']);
+    const cached = await loadItemAudio('doc');
+    expect(cached.map(c => `${c.voiceName}:${c.index}:${c.duration}`).sort()).toEqual(['Kore:0:2', 'Puck:0:1']);
+  });
+});
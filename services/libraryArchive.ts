@@ -0,0 +1,194 @@
+import { Bookmark, HistoryItem } from "../types";
+import { CachedChunk, loadItemAudio, saveCachedChunks } from "./audioStore";
+import { base64ToUint8Array, blobToBase64 } from "./utils";
+
+// Portable library archive: a single JSON file with the documents and
+// their cached narration audio, so the library can move between browsers.
+
+const ARCHIVE_FORMAT = 'omnireader-library';
+const ARCHIVE_VERSION = 1;
+
+interface ArchivedAudio extends Omit<CachedChunk, 'blob'> {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface LibraryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: HistoryItem[];
+  audio: ArchivedAudio[];
+}
+
+export type ConflictChoice = 'keep' | 'replace' | 'merge';
+
+export interface ImportConflict {
+  local: HistoryItem;
+  imported: HistoryItem;
+}
+
+export interface ImportPlan {
+  additions: HistoryItem[];
+  conflicts: ImportConflict[];
+  unchanged: HistoryItem[]; // Local documents the archive has the same bookmarks for
+}
+
+export const exportLibrary = async (items: HistoryItem[]): Promise<Blob> => {
+  const audio: ArchivedAudio[] = [];
+  for (const item of items) {
+    for (const { blob, ...chunk } of await loadItemAudio(item.id)) {
+      audio.push({ ...chunk, mimeType: blob.type, data: await blobToBase64(blob) });
+    }
+  }
+  const archive: LibraryArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    items,
+    audio,
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+export const getArchiveFileName = (count: number) => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `omnireader-library-${count}-docs-${date}.json`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isBookmark = (value: unknown): value is Bookmark => isObject(value) && typeof value.id === 'string' && typeof value.time === 'number';
+
+// Archives may be edited by hand or come from older versions, so every
+// document is checked. Only the text is required; other missing fields get
+// the defaults a new document would have. Optional fields are kept as they
+// are.
+const normalizeArchivedItem = (value: unknown, position: number, exportedAt: number): HistoryItem => {
+  if (!isObject(value) || typeof value.text !== 'string') {
+    throw new Error(`Document ${position} in the archive has no text, so the archive cannot be imported.`);
+  }
+  const bookmarks: unknown[] = Array.isArray(value.bookmarks) ? value.bookmarks : [];
+  if (!bookmarks.every(isBookmark)) {
+    throw new Error(`Document ${position} in the archive has invalid bookmarks, so the archive cannot be imported.`);
+  }
+  const { id, fileName, uploadDate, language, lastPosition, lastOffset } = value;
+  return {
+    ...(value as Partial<HistoryItem>),
+    id: nonEmptyString(id) ? id : crypto.randomUUID(),
+    fileName: nonEmptyString(fileName) ? fileName : `Imported document ${position}`,
+    uploadDate: typeof uploadDate === 'number' ? uploadDate : exportedAt,
+    text: value.text,
+    language: nonEmptyString(language) ? language : 'en',
+    bookmarks: bookmarks.map(b => ({ ...b, label: typeof b.label === 'string' ? b.label : '' })),
+    lastPosition: typeof lastPosition === 'number' && lastPosition >= 0 ? lastPosition : 0,
+    lastOffset: typeof lastOffset === 'number' && lastOffset >= 0 ? lastOffset : undefined,
+  };
+};
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isArchivedAudio = (value: unknown): value is ArchivedAudio => isObject(value)
+  && nonEmptyString(value.itemId)
+  && nonEmptyString(value.voiceName)
+  && Number.isInteger(value.index)
+  && typeof value.start === 'number'
+  && typeof value.end === 'number'
+  && typeof value.duration === 'number'
+  && typeof value.mimeType === 'string'
+  && typeof value.data === 'string' && BASE64.test(value.data);
+
+// Audio is checked before anything is imported, so a broken entry cannot
+// leave an import half done.
+const validateArchivedAudio = (value: unknown, position: number): ArchivedAudio => {
+  if (!isArchivedAudio(value)) {
+    throw new Error(`Audio entry ${position} in the archive is incomplete or corrupt, so the archive cannot be imported.`);
+  }
+  return value;
+};
+
+export const parseLibraryArchive = async (file: File): Promise<LibraryArchive> => {
+  let archive: LibraryArchive;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not an OmniReader library archive.');
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.items)) {
+    throw new Error('This file is not an OmniReader library archive.');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was created by a newer version of OmniReader.');
+  }
+  const exportedAt = typeof archive.exportedAt === 'number' ? archive.exportedAt : Date.now();
+  return {
+    ...archive,
+    exportedAt,
+    items: archive.items.map((item: unknown, i) => normalizeArchivedItem(item, i + 1, exportedAt)),
+    audio: Array.isArray(archive.audio) ? archive.audio.map((entry: unknown, i) => validateArchivedAudio(entry, i + 1)) : [],
+  };
+};
+
+const sameBookmarks = (a: Bookmark[], b: Bookmark[]) => {
+  const key = (bookmarks: Bookmark[]) => JSON.stringify([...bookmarks].sort((x, y) => x.id.localeCompare(y.id)));
+  return key(a) === key(b);
+};
+
+// Documents that are new are added as they are. A document that already
+// exists is a conflict only when its bookmarks differ; otherwise the local
+// copy is kept.
+export const planImport = (archive: LibraryArchive, existing: HistoryItem[]): ImportPlan => {
+  const plan: ImportPlan = { additions: [], conflicts: [], unchanged: [] };
+  for (const imported of archive.items) {
+    const local = existing.find(item => item.id === imported.id);
+    if (!local) {
+      plan.additions.push(imported);
+    } else if (!sameBookmarks(local.bookmarks, imported.bookmarks)) {
+      plan.conflicts.push({ local, imported });
+    } else {
+      plan.unchanged.push(local);
+    }
+  }
+  return plan;
+};
+
+// Returns the document to store for a conflict, or null to leave it alone.
+export const resolveConflict = ({ local, imported }: ImportConflict, choice: ConflictChoice): HistoryItem | null => {
+  if (choice === 'keep') return null;
+  if (choice === 'replace') return imported;
+  const bookmarks = [...local.bookmarks];
+  for (const bookmark of imported.bookmarks) {
+    if (!bookmarks.some(b => b.id === bookmark.id)) bookmarks.push(bookmark);
+  }
+  return {
+    ...local,
+    bookmarks: bookmarks.sort((a, b) => a.time - b.time),
+    lastPosition: Math.max(local.lastPosition, imported.lastPosition),
+  };
+};
+
+const toCachedChunk = ({ mimeType, data, ...chunk }: ArchivedAudio): CachedChunk => ({
+  ...chunk,
+  blob: new Blob([base64ToUint8Array(data)], { type: mimeType }),
+});
+
+// Writes the archived audio of the given documents into the audio cache.
+export const importArchiveAudio = async (archive: LibraryArchive, itemIds: string[]): Promise<void> => {
+  const chunks = archive.audio.filter(entry => itemIds.includes(entry.itemId)).map(toCachedChunk);
+  if (chunks.length > 0) await saveCachedChunks(chunks);
+};
+
+// For documents whose local copy is kept: writes the archived audio of
+// every voice that has no cached audio here yet, and leaves the rest.
+export const importMissingArchiveAudio = async (archive: LibraryArchive, itemIds: string[]): Promise<void> => {
+  const chunks: CachedChunk[] = [];
+  for (const itemId of itemIds) {
+    const entries = archive.audio.filter(entry => entry.itemId === itemId);
+    if (entries.length === 0) continue;
+    const cachedVoices = new Set((await loadItemAudio(itemId)).map(chunk => chunk.voiceName));
+    chunks.push(...entries.filter(entry => !cachedVoices.has(entry.voiceName)).map(toCachedChunk));
+  }
+  if (chunks.length > 0) await saveCachedChunks(chunks);
+};
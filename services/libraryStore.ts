@@ -0,0 +1,23 @@
+import { HistoryItem } from "../types";
+import { DOCUMENTS_STORE, withStore } from "./db";
+
+// Fills in fields that older library entries may be missing.
+const normalizeItem = (item: HistoryItem): HistoryItem => ({
+  ...item,
+  bookmarks: item.bookmarks ?? [],
+  lastPosition: item.lastPosition ?? 0,
+});
+
+// All library documents, newest first.
+export const loadLibrary = async (): Promise<HistoryItem[]> => {
+  const items = await withStore<HistoryItem[]>(DOCUMENTS_STORE, 'readonly', store => store.getAll());
+  return items.map(normalizeItem).sort((a, b) => b.uploadDate - a.uploadDate);
+};
+
+export const putLibraryItem = async (item: HistoryItem): Promise<void> => {
+  await withStore(DOCUMENTS_STORE, 'readwrite', store => store.put(item));
+};
+
+export const deleteLibraryItem = async (id: string): Promise<void> => {
+  await withStore(DOCUMENTS_STORE, 'readwrite', store => store.delete(id));
+};
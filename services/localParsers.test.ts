@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocalDocument } from './localParsers';
+
+const parseMarkdown = async (markdown: string) =>
+  (await parseLocalDocument(new File([markdown], 'notes.md'), 'local-markdown')).text;
+
+describe('parseLocalDocument (Markdown)', () => {
+  it('strips emphasis, code spans, links and images', async () => {
+    expect(await parseMarkdown('Some **bold**, *italic*, __strong__, _em_, ~~old~~ and `code`. See [the docs](https://example.com) ![logo](logo.png)'))
+      .toBe('Some bold, italic, strong, em, old and code. See the docs');
+  });
+
+  it('keeps underscores inside words', async () => {
+    expect(await parseMarkdown('Set snake_case_name and MAX_RETRY_COUNT, but _this_ is emphasis.'))
+      .toBe('Set snake_case_name and MAX_RETRY_COUNT, but this is emphasis.');
+    expect(await parseMarkdown('Call my_function(a_b) with _care_.')).toBe('Call my_function(a_b) with care.');
+  });
+});
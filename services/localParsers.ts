@@ -0,0 +1,281 @@
+import JSZip from "jszip";
+import { ExtractedDocument, ExtractionMethod } from "../types";
+import { RawExtraction, buildStructuredDocument } from "./documentModel";
+
+// Formats whose text is available without a model call. Everything else
+// (PDFs, images) still goes through Gemini.
+
+type RawSection = NonNullable<RawExtraction['sections']>[number];
+
+const EXTENSIONS: Record<string, Exclude<ExtractionMethod, 'gemini'>> = {
+  txt: 'local-text',
+  text: 'local-text',
+  html: 'local-html',
+  htm: 'local-html',
+  xhtml: 'local-html',
+  md: 'local-markdown',
+  markdown: 'local-markdown',
+  epub: 'local-epub',
+};
+
+const MIME_TYPES: Record<string, Exclude<ExtractionMethod, 'gemini'>> = {
+  'text/plain': 'local-text',
+  'text/html': 'local-html',
+  'application/xhtml+xml': 'local-html',
+  'text/markdown': 'local-markdown',
+  'application/epub+zip': 'local-epub',
+};
+
+export const getLocalParser = (file: File): Exclude<ExtractionMethod, 'gemini'> | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[extension] ?? MIME_TYPES[file.type] ?? null;
+};
+
+// Rough Spanish/English detection from common function words, matching the
+// 'es' / 'en' codes the model returns.
+const SPANISH_WORDS = new Set(['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'del', 'se', 'no', 'su', 'al', 'lo']);
+const ENGLISH_WORDS = new Set(['the', 'and', 'of', 'to', 'a', 'in', 'is', 'that', 'it', 'for', 'was', 'on', 'with', 'as', 'he', 'she', 'you', 'this', 'be', 'are']);
+
+export const detectLanguage = (text: string): string => {
+  let spanish = 0;
+  let english = 0;
+  for (const word of text.slice(0, 20000).toLowerCase().match(/\p{L}+/gu) ?? []) {
+    if (SPANISH_WORDS.has(word)) spanish++;
+    if (ENGLISH_WORDS.has(word)) english++;
+  }
+  return spanish > english ? 'es' : 'en';
+};
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const paragraphsOf = (text: string) =>
+  text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => ({ text: p }));
+
+// --- Plain text ---
+
+const parseText = (text: string): RawExtraction => ({
+  language: detectLanguage(text),
+  sections: [{ heading: '', paragraphs: paragraphsOf(text) }],
+});
+
+// --- HTML ---
+
+const STRIPPED_ELEMENTS = 'script, style, nav, noscript, template, iframe, svg, head';
+const BLOCK_ELEMENTS = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, dt, dd, figcaption, td, th';
+
+// Sections of an HTML body: each heading starts a section and the block
+// elements after it become its paragraphs.
+const htmlToSections = (doc: Document): RawSection[] => {
+  doc.querySelectorAll(STRIPPED_ELEMENTS).forEach(el => el.remove());
+  const body = doc.body ?? doc.documentElement;
+  const sections: RawSection[] = [{ heading: '', paragraphs: [] }];
+
+  const blocks = Array.from(body.querySelectorAll(BLOCK_ELEMENTS))
+    // Skip blocks nested in another block (e.g. a <p> inside an <li>)
+    .filter(el => !el.parentElement?.closest(BLOCK_ELEMENTS));
+  for (const el of blocks) {
+    const text = collapseWhitespace(el.textContent ?? '');
+    if (!text) continue;
+    const heading = /^H([1-6])$/.exec(el.tagName.toUpperCase());
+    if (heading) {
+      sections.push({ heading: text, level: Math.min(Number(heading[1]), 3), paragraphs: [] });
+    } else {
+      sections[sections.length - 1].paragraphs!.push({ text });
+    }
+  }
+
+  // Pages built from bare <div>s: fall back to the body text
+  if (blocks.length === 0) {
+    sections[0].paragraphs = paragraphsOf(body.textContent ?? '').map(p => ({ text: collapseWhitespace(p.text) }));
+  }
+  return sections.filter(s => s.heading || s.paragraphs!.length > 0);
+};
+
+const parseHtml = (html: string): RawExtraction => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const sections = htmlToSections(doc);
+  const lang = doc.documentElement.lang?.slice(0, 2).toLowerCase();
+  return {
+    language: lang || detectLanguage(sections.flatMap(s => s.paragraphs!.map(p => p.text)).join(' ')),
+    sections,
+  };
+};
+
+// --- Markdown ---
+
+// Removes inline Markdown syntax, keeping the readable text.
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // links
+    .replace(/<[^>]+>/g, '') // inline HTML
+    .replace(/(\*\*|\*|~~|`)(.+?)\1/g, '$2') // emphasis and code spans
+    // Underscore emphasis only at word boundaries, so snake_case_names stay
+    .replace(/(?<![\p{L}\p{N}_])(__|_)(?=\S)(.+?)(?<=\S)\1(?![\p{L}\p{N}_])/gu, '$2')
+    .trim();
+
+const parseMarkdown = (markdown: string): RawExtraction => {
+  const sections: RawSection[] = [{ heading: '', paragraphs: [] }];
+  let paragraph: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const text = stripInlineMarkdown(paragraph.join(' '));
+    if (text) sections[sections.length - 1].paragraphs!.push({ text });
+    paragraph = [];
+  };
+
+  const lines = markdown.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    // Code blocks are not narrated
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    if (inCodeBlock) return;
+
+    const atx = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    const setext = /^\s*(=+|-+)\s*$/.test(lines[i + 1] ?? '') && line.trim() && paragraph.length === 0;
+    if (atx || setext) {
+      flush();
+      const level = atx ? atx[1].length : lines[i + 1].trim().startsWith('=') ? 1 : 2;
+      sections.push({ heading: stripInlineMarkdown(atx ? atx[2] : line), level: Math.min(level, 3), paragraphs: [] });
+      if (setext) lines[i + 1] = ''; // Consume the underline
+      return;
+    }
+    if (!line.trim() || /^\s*([-*_]\s*){3,}$/.test(line)) {
+      flush();
+      return;
+    }
+    // List items and block quotes each read as their own paragraph
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      flush();
+      paragraph.push(item[1]);
+      return;
+    }
+    paragraph.push(line.replace(/^\s*>\s?/, ''));
+  });
+  flush();
+
+  const filtered = sections.filter(s => s.heading || s.paragraphs!.length > 0);
+  return {
+    language: detectLanguage(filtered.flatMap(s => s.paragraphs!.map(p => p.text)).join(' ')),
+    sections: filtered,
+  };
+};
+
+// --- EPUB ---
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base ? `${base}/${decodeURIComponent(href)}` : decodeURIComponent(href)).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// Chapter titles by content file, from the EPUB 3 nav document or the
+// EPUB 2 NCX table of contents.
+const readTocTitles = async (zip: JSZip, opf: Document, opfDir: string): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const nav = items.find(item => item.getAttribute('properties')?.split(' ').includes('nav'));
+  const ncxId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+  const ncx = items.find(item => item.getAttribute('id') === ncxId);
+
+  const addTitle = (tocDir: string, href: string | null, title: string | null | undefined) => {
+    if (!href || !title?.trim()) return;
+    const path = resolvePath(tocDir, href.split('#')[0]);
+    if (!titles.has(path)) titles.set(path, collapseWhitespace(title));
+  };
+
+  if (nav) {
+    const path = resolvePath(opfDir, nav.getAttribute('href') ?? '');
+    const doc = new DOMParser().parseFromString(await zip.file(path)?.async('string') ?? '', 'text/html');
+    const toc = doc.querySelector('nav[epub\\:type="toc"], nav') ?? doc;
+    toc.querySelectorAll('a[href]').forEach(a => addTitle(dirname(path), a.getAttribute('href'), a.textContent));
+  } else if (ncx) {
+    const path = resolvePath(opfDir, ncx.getAttribute('href') ?? '');
+    const doc = parseXml(await zip.file(path)?.async('string') ?? '');
+    Array.from(doc.getElementsByTagName('navPoint')).forEach(point => {
+      const label = point.getElementsByTagName('text')[0]?.textContent;
+      const src = point.getElementsByTagName('content')[0]?.getAttribute('src') ?? null;
+      addTitle(dirname(path), src, label);
+    });
+  }
+  return titles;
+};
+
+// Reads the spine documents in order. Each spine document that has a table
+// of contents entry but no heading of its own gets the entry as its title.
+const parseEpub = async (data: ArrayBuffer): Promise<RawExtraction> => {
+  const zip = await JSZip.loadAsync(data);
+  const container = parseXml(await zip.file('META-INF/container.xml')?.async('string') ?? '');
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error('This EPUB has no package document.');
+  const opf = parseXml(await zip.file(opfPath)?.async('string') ?? '');
+  const opfDir = dirname(opfPath);
+
+  const manifest = new Map<string, string>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    manifest.set(item.getAttribute('id') ?? '', resolvePath(opfDir, item.getAttribute('href') ?? ''));
+  }
+  const titles = await readTocTitles(zip, opf, opfDir);
+
+  const sections: RawSection[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const path = manifest.get(itemref.getAttribute('idref') ?? '');
+    const content = path ? await zip.file(path)?.async('string') : undefined;
+    if (!path || !content) continue;
+
+    const chapter = htmlToSections(new DOMParser().parseFromString(content, 'text/html'));
+    const title = titles.get(path);
+    if (title && !chapter.some(s => s.heading)) {
+      chapter.unshift({ heading: title, level: 1, paragraphs: chapter.shift()?.paragraphs ?? [] });
+    } else if (chapter[0] && !chapter[0].heading && sections.length > 0) {
+      // Untitled text continues the previous chapter
+      sections[sections.length - 1].paragraphs!.push(...chapter.shift()!.paragraphs!);
+    }
+    sections.push(...chapter);
+  }
+
+  const language = opf.getElementsByTagName('dc:language')[0]?.textContent?.slice(0, 2).toLowerCase();
+  return {
+    language: language || detectLanguage(sections.flatMap(s => s.paragraphs!.map(p => p.text)).join(' ')),
+    sections,
+  };
+};
+
+// Extracts a TXT, HTML, Markdown or EPUB file without calling the model.
+export const parseLocalDocument = async (
+  file: File,
+  method: Exclude<ExtractionMethod, 'gemini'>
+): Promise<ExtractedDocument> => {
+  let raw: RawExtraction;
+  switch (method) {
+    case 'local-text':
+      raw = parseText(await file.text());
+      break;
+    case 'local-html':
+      raw = parseHtml(await file.text());
+      break;
+    case 'local-markdown':
+      raw = parseMarkdown(await file.text());
+      break;
+    case 'local-epub':
+      raw = await parseEpub(await file.arrayBuffer());
+      break;
+  }
+  const document = buildStructuredDocument(raw, method);
+  if (!document.text) throw new Error(`No readable text found in ${file.name}.`);
+  return document;
+};
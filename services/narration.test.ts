@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { NarrationChunk } from '../types';
+import {
+  buildChunkTiming,
+  estimateNarrationTime,
+  findSentenceAt,
+  getPositionForOffset,
+  getSkipPosition,
+  locateNarrationTime,
+  splitTextIntoChunks,
+} from './narration';
+
+const chunk = (index: number, status: NarrationChunk['status'], duration?: number): NarrationChunk =>
+  ({ index, start: index * 10, end: index * 10 + 10, text: 'x'.repeat(10), status, duration });
+
+const texts = (text: string, chunks: { start: number; end: number }[]) => chunks.map(c => text.slice(c.start, c.end));
+
+describe('splitTextIntoChunks', () => {
+  it('fills chunks with whole paragraphs up to the limit', () => {
+    const text = 'First paragraph.\n\nSecond one.\n\nThird.';
+    const chunks = splitTextIntoChunks(text, [], 32);
+    expect(texts(text, chunks)).toEqual(['First paragraph.\n\nSecond one.', 'Third.']);
+    expect(chunks.map(c => c.index)).toEqual([0, 1]);
+    expect(chunks.every(c => c.status === 'pending' && c.text === text.slice(c.start, c.end))).toBe(true);
+  });
+
+  it('starts a new chunk at each boundary', () => {
+    const text = 'Chapter one.\n\nIt begins.\n\nChapter two.\n\nIt ends.';
+    const chapterTwo = text.indexOf('Chapter two');
+    expect(texts(text, splitTextIntoChunks(text, [chapterTwo]))).toEqual(['Chapter one.\n\nIt begins.', 'Chapter two.\n\nIt ends.']);
+    // Boundaries may come unsorted, and a boundary at the start adds nothing
+    expect(splitTextIntoChunks(text, [chapterTwo, 0])).toHaveLength(2);
+  });
+
+  it('splits long paragraphs at sentences', () => {
+    const text = 'One sentence here. Another one there. A third.';
+    expect(texts(text, splitTextIntoChunks(text, [], 20))).toEqual(['One sentence here.', 'Another one there.', 'A third.']);
+  });
+
+  it('cuts a sentence longer than the limit at whitespace', () => {
+    const text = 'aaaa bbbb cccc dddd eeee';
+    expect(texts(text, splitTextIntoChunks(text, [], 10))).toEqual(['aaaa bbbb', 'cccc dddd', 'eeee']);
+  });
+
+  it('cuts a word longer than the limit', () => {
+    expect(texts('abcdefghij', splitTextIntoChunks('abcdefghij', [], 4))).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('buildChunkTiming', () => {
+  it('spreads the duration over the sentences by length', () => {
+    // Each sentence weighs its length plus 8 for the pause after it
+    const text = 'Hi. Hello there.\n\nEnd';
+    const [first] = splitTextIntoChunks(text);
+    const timing = buildChunkTiming(text, { ...first, duration: 10 });
+    expect(timing).toMatchObject({ index: 0, start: 0, end: text.length, duration: 10 });
+    expect(timing.sentences.map(s => text.slice(s.start, s.end))).toEqual(['Hi.', 'Hello there.', 'End']);
+    expect(timing.sentences.map(s => s.time)).toEqual([0, 10 * 11 / 42, 10 * 31 / 42]);
+  });
+});
+
+describe('findSentenceAt', () => {
+  const timings = [{ index: 0, start: 0, end: 20, duration: 6, sentences: [{ start: 0, end: 5, time: 0 }, { start: 6, end: 20, time: 2 }] }];
+
+  it('returns the sentence and its time slot in the chunk', () => {
+    expect(findSentenceAt(timings, { index: 0, offset: 0 })).toMatchObject({ sentence: { start: 0 }, start: 0, end: 2 });
+    expect(findSentenceAt(timings, { index: 0, offset: 5.9 })).toMatchObject({ sentence: { start: 6 }, start: 2, end: 6 });
+  });
+});
+
+describe('getSkipPosition', () => {
+  // Two chunks of two sentences, with a paragraph break inside the first
+  const text = 'One. Two.\n\nThree. Four.';
+  const timings = [
+    { index: 0, start: 0, end: 9, duration: 4, sentences: [{ start: 0, end: 4, time: 0 }, { start: 5, end: 9, time: 2 }] },
+    { index: 1, start: 11, end: 23, duration: 4, sentences: [{ start: 11, end: 17, time: 0 }, { start: 18, end: 23, time: 2 }] },
+  ];
+
+  it('skips forward to the next sentence, across chunks', () => {
+    expect(getSkipPosition(text, timings, { index: 0, offset: 2.5 }, 'sentence', 1)).toEqual({ index: 1, offset: 0 });
+    expect(getSkipPosition(text, timings, { index: 1, offset: 2.5 }, 'sentence', 1)).toBeNull();
+  });
+
+  it('skips by paragraph', () => {
+    expect(getSkipPosition(text, timings, { index: 0, offset: 0 }, 'paragraph', 1)).toEqual({ index: 1, offset: 0 });
+    expect(getSkipPosition(text, timings, { index: 1, offset: 3 }, 'paragraph', -1)).toEqual({ index: 1, offset: 0 });
+  });
+
+  it('restarts the sentence, or goes to the previous one within the first 2 seconds', () => {
+    expect(getSkipPosition(text, timings, { index: 1, offset: 1 }, 'sentence', -1)).toEqual({ index: 0, offset: 2 });
+    expect(getSkipPosition(text, timings, { index: 1, offset: 2.5 }, 'sentence', -1)).toEqual({ index: 1, offset: 0 });
+    expect(getSkipPosition(text, timings, { index: 1, offset: 3 }, 'sentence', -1)).toEqual({ index: 1, offset: 0 });
+    expect(getSkipPosition(text, timings, { index: 1, offset: 4 }, 'sentence', -1)).toEqual({ index: 1, offset: 2 });
+  });
+
+  it('goes back to the start from the first sentence', () => {
+    expect(getSkipPosition(text, timings, { index: 0, offset: 1 }, 'sentence', -1)).toEqual({ index: 0, offset: 0 });
+  });
+});
+
+describe('estimateNarrationTime', () => {
+  it('adds up the durations of the earlier chunks', () => {
+    const chunks = [chunk(0, 'ready', 2), chunk(1, 'ready', 3), chunk(2, 'pending')];
+    expect(estimateNarrationTime(chunks, { index: 0, offset: 1 })).toBe(1);
+    expect(estimateNarrationTime(chunks, { index: 2, offset: 0.5 })).toBe(5.5);
+  });
+
+  it('estimates chunks that are not ready from the speaking rate of the others', () => {
+    // 10 characters per chunk, spoken in 2 seconds
+    const chunks = [chunk(0, 'error'), chunk(1, 'generating'), chunk(2, 'ready', 2), chunk(3, 'ready', 2)];
+    expect(estimateNarrationTime(chunks, { index: 3, offset: 1 })).toBe(7);
+  });
+});
+
+describe('locateNarrationTime', () => {
+  it('finds the chunk and the offset inside it', () => {
+    const chunks = [chunk(0, 'ready', 2), chunk(1, 'ready', 3)];
+    expect(locateNarrationTime(chunks, 3)).toEqual({ index: 1, offset: 1 });
+    expect(locateNarrationTime(chunks, 10)).toEqual({ index: 1, offset: 8 });
+  });
+
+  it('is unknown past a chunk that is not ready', () => {
+    expect(locateNarrationTime([chunk(0, 'ready', 2), chunk(1, 'error'), chunk(2, 'ready', 1)], 2.5)).toBeNull();
+  });
+});
+
+describe('positions after chunks that are not generated', () => {
+  const text = 'One. Two.\n\nThree. Four.';
+  // Only the second chunk ('Three. Four.') has been generated
+  const timings = [{ index: 1, start: 11, end: 23, duration: 4, sentences: [{ start: 11, end: 17, time: 0 }, { start: 18, end: 23, time: 2 }] }];
+
+  it('finds the sentence being read', () => {
+    expect(findSentenceAt(timings, { index: 1, offset: 2.5 })).toEqual({ sentence: timings[0].sentences[1], index: 1, start: 2, end: 4 });
+    expect(findSentenceAt(timings, { index: 0, offset: 1 })).toBeNull();
+  });
+
+  it('finds the position of a text offset', () => {
+    expect(getPositionForOffset(timings, 19)).toEqual({ index: 1, offset: 2 });
+    expect(getPositionForOffset(timings, 2)).toBeNull();
+  });
+
+  it('skips between sentences', () => {
+    expect(getSkipPosition(text, timings, { index: 1, offset: 0.5 }, 'sentence', 1)).toEqual({ index: 1, offset: 2 });
+    expect(getSkipPosition(text, timings, { index: 1, offset: 3 }, 'sentence', 1)).toBeNull();
+  });
+});
@@ -0,0 +1,364 @@
+import { ChunkTiming, NarrationChunk, SentenceTiming } from "../types";
+import { generateSpeech } from "./geminiService";
+import { RequestOptions } from "./request";
+import { SpeechDelivery, prepareSpeechText } from "./speechStyle";
+import { SpeechAudio, speechToWav } from "./utils";
+
+// Keeps each TTS request comfortably below the model's input limit while
+// still producing chunks long enough to sound natural.
+export const DEFAULT_CHUNK_CHARS = 3000;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const PARAGRAPH_BREAK = /\n\s*\n/g;
+const SENTENCE = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g;
+
+// Returns the [start, end) ranges between separator matches inside the
+// given range, with absolute offsets.
+const splitRange = (text: string, range: TextRange, separator: RegExp): TextRange[] => {
+  const parts: TextRange[] = [];
+  const slice = text.slice(range.start, range.end);
+  let cursor = 0;
+  for (const match of slice.matchAll(separator)) {
+    parts.push({ start: range.start + cursor, end: range.start + match.index! });
+    cursor = match.index! + match[0].length;
+  }
+  parts.push({ start: range.start + cursor, end: range.end });
+  return parts;
+};
+
+// Shrinks a range so it starts and ends on non-whitespace characters.
+const trimRange = (text: string, range: TextRange): TextRange | null => {
+  let { start, end } = range;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+// Sentence ranges inside text.slice(start, end), with absolute offsets.
+export const splitSentences = (text: string, start = 0, end = text.length): TextRange[] => {
+  const ranges: TextRange[] = [];
+  const slice = text.slice(start, end);
+  for (const match of slice.matchAll(SENTENCE)) {
+    const range = trimRange(text, { start: start + match.index!, end: start + match.index! + match[0].length });
+    if (range) ranges.push(range);
+  }
+  return ranges;
+};
+
+// Sentence ranges that never cross a paragraph break, so headings and
+// list items without final punctuation stay on their own.
+export const splitDocumentSentences = (text: string, start = 0, end = text.length): TextRange[] => {
+  return splitRange(text, { start, end }, PARAGRAPH_BREAK)
+    .flatMap(paragraph => splitSentences(text, paragraph.start, paragraph.end));
+};
+
+// Paragraph ranges, trimmed, without the empty ones between blank lines.
+export const splitParagraphs = (text: string): TextRange[] => {
+  return splitRange(text, { start: 0, end: text.length }, PARAGRAPH_BREAK)
+    .map(paragraph => trimRange(text, paragraph))
+    .filter((paragraph): paragraph is TextRange => paragraph !== null);
+};
+
+// Last resort for a single sentence longer than the limit: cut at whitespace.
+const hardSplit = (text: string, range: TextRange, maxChars: number): TextRange[] => {
+  const parts: TextRange[] = [];
+  let start = range.start;
+  while (range.end - start > maxChars) {
+    let cut = text.lastIndexOf(' ', start + maxChars);
+    if (cut <= start) cut = start + maxChars;
+    parts.push({ start, end: cut });
+    start = cut;
+    while (start < range.end && /\s/.test(text[start])) start++;
+  }
+  parts.push({ start, end: range.end });
+  return parts;
+};
+
+// Breaks the text into units that never exceed maxChars, preferring
+// paragraph boundaries, then sentence boundaries, then whitespace.
+const splitIntoUnits = (text: string, maxChars: number): TextRange[] => {
+  const units: TextRange[] = [];
+  for (const trimmed of splitParagraphs(text)) {
+    if (trimmed.end - trimmed.start <= maxChars) {
+      units.push(trimmed);
+      continue;
+    }
+    for (const sentence of splitSentences(text, trimmed.start, trimmed.end)) {
+      if (sentence.end - sentence.start <= maxChars) {
+        units.push(sentence);
+      } else {
+        units.push(...hardSplit(text, sentence, maxChars));
+      }
+    }
+  }
+  return units;
+};
+
+// Splits a document into narration chunks at paragraph and sentence
+// boundaries. Offsets refer back to the original text so chunks can be
+// mapped onto the preview. A new chunk is always started at each of the
+// given boundaries (e.g. chapter starts).
+export const splitTextIntoChunks = (
+  text: string,
+  boundaries: number[] = [],
+  maxChars = DEFAULT_CHUNK_CHARS
+): NarrationChunk[] => {
+  const chunks: NarrationChunk[] = [];
+  let current: TextRange | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      index: chunks.length,
+      start: current.start,
+      end: current.end,
+      text: text.slice(current.start, current.end),
+      status: 'pending',
+    });
+    current = null;
+  };
+
+  const breaks = [...boundaries].sort((a, b) => a - b);
+  let nextBreak = 0;
+  for (const unit of splitIntoUnits(text, maxChars)) {
+    let forceBreak = false;
+    while (nextBreak < breaks.length && breaks[nextBreak] <= unit.start) {
+      forceBreak = true;
+      nextBreak++;
+    }
+    if (current && (forceBreak || unit.end - current.start > maxChars)) flush();
+    current = current ? { start: current.start, end: unit.end } : { ...unit };
+  }
+  flush();
+  return chunks;
+};
+
+export interface SynthesizedAudio {
+  blob: Blob;
+  audioUrl: string;
+  duration: number;
+}
+
+// Synthesizes a single chunk and returns its audio, a playable URL and its
+// duration. The delivery (style and lexicon), if any, is applied first.
+export const synthesizeChunk = async (
+  text: string,
+  voiceName: string,
+  options: RequestOptions = {},
+  delivery?: SpeechDelivery
+): Promise<SynthesizedAudio> => {
+  const speechText = delivery ? prepareSpeechText(text, delivery) : text;
+  return loadSpeechAudio([await generateSpeech(speechText, voiceName, options)]);
+};
+
+// Joins the audio of one or more TTS requests into a playable WAV. The
+// duration comes from the sample count, not from the browser.
+export const loadSpeechAudio = (segments: SpeechAudio[]): SynthesizedAudio => {
+  const { blob, duration } = speechToWav(segments);
+  return { blob, audioUrl: URL.createObjectURL(blob), duration };
+};
+
+// A point in the narration: a chunk and the seconds into it. Unlike a time
+// in the whole narration, it is known as soon as that one chunk has been
+// generated, e.g. when narration starts from a later chapter.
+export interface NarrationPosition {
+  index: number;
+  offset: number;
+}
+
+const hasDuration = (chunk: NarrationChunk) => chunk.status === 'ready' && chunk.duration !== undefined;
+
+// Rough speaking rate, used until some audio has been generated
+const DEFAULT_SECONDS_PER_CHAR = 1 / 15;
+
+// Time of a position in the whole narration. Earlier chunks that have not
+// been generated yet are estimated from the speaking rate of those that
+// have, so the result is exact only once they all are.
+export const estimateNarrationTime = (chunks: NarrationChunk[], position: NarrationPosition): number => {
+  const ready = chunks.filter(hasDuration);
+  const characters = ready.reduce((sum, c) => sum + c.text.length, 0);
+  const secondsPerChar = characters > 0 ? ready.reduce((sum, c) => sum + c.duration!, 0) / characters : DEFAULT_SECONDS_PER_CHAR;
+  let time = position.offset;
+  for (const chunk of chunks.slice(0, position.index)) {
+    time += hasDuration(chunk) ? chunk.duration! : chunk.text.length * secondsPerChar;
+  }
+  return time;
+};
+
+// Maps a time in the full narration back to a position. Returns null when
+// the time falls in or after a chunk whose audio (and therefore duration)
+// is not known yet.
+export const locateNarrationTime = (
+  chunks: NarrationChunk[],
+  time: number
+): NarrationPosition | null => {
+  let start = 0;
+  for (const chunk of chunks) {
+    if (!hasDuration(chunk)) return null;
+    if (time < start + chunk.duration! || chunk.index === chunks.length - 1) {
+      return { index: chunk.index, offset: Math.max(0, time - start) };
+    }
+    start += chunk.duration!;
+  }
+  return null;
+};
+
+// Extra weight per sentence to account for the pause after it.
+const SENTENCE_PAUSE_CHARS = 8;
+
+// Builds the read-along timing of a generated chunk by spreading its
+// duration over its sentences in proportion to their length.
+export const buildChunkTiming = (text: string, chunk: NarrationChunk): ChunkTiming => {
+  const duration = chunk.duration ?? 0;
+  const ranges = splitDocumentSentences(text, chunk.start, chunk.end);
+  const total = ranges.reduce((sum, r) => sum + r.end - r.start + SENTENCE_PAUSE_CHARS, 0);
+  let elapsed = 0;
+  const sentences = ranges.map(range => {
+    const time = total > 0 ? (duration * elapsed) / total : 0;
+    elapsed += range.end - range.start + SENTENCE_PAUSE_CHARS;
+    return { ...range, time };
+  });
+  return { index: chunk.index, start: chunk.start, end: chunk.end, duration, sentences };
+};
+
+export interface TimedSentence {
+  sentence: SentenceTiming;
+  index: number; // Chunk
+  start: number; // Seconds into the chunk
+  end: number;
+}
+
+// Timings are kept sorted by chunk, and only generated chunks have one.
+
+const findTiming = (timings: ChunkTiming[], index: number) => timings.find(t => t.index === index);
+
+// Walks the chunk timings in order, yielding each with its start time in
+// the full narration. Stops at the first gap, since later start times are
+// unknown until the missing chunk is generated.
+function* walkTimings(timings: ChunkTiming[]): Generator<{ timing: ChunkTiming; chunkStart: number }> {
+  let chunkStart = 0;
+  for (let i = 0; i < timings.length; i++) {
+    if (timings[i].index !== i) return;
+    yield { timing: timings[i], chunkStart };
+    chunkStart += timings[i].duration;
+  }
+}
+
+// Finds the sentence being spoken at a position in the narration.
+export const findSentenceAt = (timings: ChunkTiming[], position: NarrationPosition): TimedSentence | null => {
+  const timing = findTiming(timings, position.index);
+  if (!timing) return null;
+  for (let i = timing.sentences.length - 1; i >= 0; i--) {
+    const sentence = timing.sentences[i];
+    if (sentence.time <= position.offset) {
+      const next = timing.sentences[i + 1];
+      return { sentence, index: timing.index, start: sentence.time, end: next ? next.time : timing.duration };
+    }
+  }
+  return null;
+};
+
+// Position at which the sentence containing a text offset starts. Null
+// when the chunk containing it has not been generated yet.
+export const getPositionForOffset = (timings: ChunkTiming[], offset: number): NarrationPosition | null => {
+  const timing = timings.find(t => offset < t.end);
+  if (!timing) return null;
+  // Before the chunk's text is the whitespace after the previous chunk,
+  // unless that chunk is missing and the offset may be anywhere in it
+  if (offset < timing.start && timing.index > 0 && !findTiming(timings, timing.index - 1)) return null;
+  const position = { index: timing.index, offset: 0 };
+  for (const sentence of timing.sentences) {
+    if (sentence.start > offset) break;
+    position.offset = sentence.time;
+  }
+  return position;
+};
+
+// Position of a time in the whole narration, as far as the timings run
+// without a gap from the start.
+export const getPositionForTime = (timings: ChunkTiming[], time: number): NarrationPosition | null => {
+  for (const { timing, chunkStart } of walkTimings(timings)) {
+    if (time < chunkStart + timing.duration) return { index: timing.index, offset: time - chunkStart };
+  }
+  return null;
+};
+
+// Narration time at which the sentence containing a text offset starts,
+// for exports where every chunk has been generated.
+export const getTimeForOffset = (timings: ChunkTiming[], offset: number): number | null => {
+  for (const { timing, chunkStart } of walkTimings(timings)) {
+    if (offset >= timing.end) continue;
+    let time = chunkStart;
+    for (const sentence of timing.sentences) {
+      if (sentence.start > offset) break;
+      time = chunkStart + sentence.time;
+    }
+    return time;
+  }
+  return null;
+};
+
+export type SkipUnit = 'sentence' | 'paragraph';
+
+// Skipping back within this many seconds of a sentence's start goes to the
+// previous one instead of restarting it, like a music player's back button.
+const RESTART_GRACE_SECONDS = 2;
+
+// Whether a blank line (or the start of the text) comes before an offset,
+// looking past any whitespace
+const startsParagraph = (text: string, offset: number) => {
+  let start = offset;
+  while (start > 0 && /\s/.test(text[start - 1])) start--;
+  return start === 0 || /\n\s*\n/.test(text.slice(start, offset));
+};
+
+// Position to skip to from `position`: the start of the next or previous
+// sentence or paragraph among the chunks generated so far. Null when
+// skipping forward past them.
+export const getSkipPosition = (
+  text: string,
+  timings: ChunkTiming[],
+  position: NarrationPosition,
+  unit: SkipUnit,
+  direction: 1 | -1
+): NarrationPosition | null => {
+  const stops = timings.flatMap(timing => timing.sentences
+    .filter(sentence => unit === 'sentence' || startsParagraph(text, sentence.start))
+    .map(sentence => ({ index: timing.index, offset: sentence.time, duration: timing.duration })));
+  if (direction > 0) {
+    const next = stops.find(stop => stop.index > position.index || (stop.index === position.index && stop.offset > position.offset + 0.05));
+    return next ? { index: next.index, offset: next.offset } : null;
+  }
+  // For stops in earlier chunks this is a lower bound, which is all the
+  // grace period needs
+  const secondsBack = (stop: typeof stops[number]) => stop.index === position.index
+    ? position.offset - stop.offset
+    : position.offset + stop.duration - stop.offset;
+  const earlier = stops.filter(stop => stop.index <= position.index && secondsBack(stop) >= RESTART_GRACE_SECONDS);
+  const target = earlier.length > 0 ? earlier[earlier.length - 1] : stops[0];
+  return target ? { index: target.index, offset: target.offset } : { index: position.index, offset: 0 };
+};
+
+// Estimates the word being spoken inside a sentence, given how far through
+// the sentence's time slot playback is (0 to 1).
+export const estimateWordRange = (text: string, sentence: TextRange, progress: number): TextRange | null => {
+  const target = sentence.start + Math.floor((sentence.end - sentence.start) * Math.min(Math.max(progress, 0), 1));
+  const slice = text.slice(sentence.start, sentence.end);
+  let last: TextRange | null = null;
+  for (const match of slice.matchAll(/\S+/g)) {
+    const word = { start: sentence.start + match.index!, end: sentence.start + match.index! + match[0].length };
+    if (word.start > target) break;
+    last = word;
+  }
+  return last;
+};
+
+export const revokeChunkUrls = (chunks: NarrationChunk[]) => {
+  chunks.forEach(chunk => {
+    if (chunk.audioUrl) URL.revokeObjectURL(chunk.audioUrl);
+  });
+};
@@ -0,0 +1,444 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import { ActionItem, DialogueLine, ImageSize, ModelCapability, SpeakerVoice, SummaryLength, Transcript } from "../../types";
+import { RawExtraction } from "../documentModel";
+import { AuthError, RequestOptions, SafetyBlockedError, parseJsonResponse, runRequest } from "../request";
+import { getApiKey, getModel } from "../settings";
+import { checkBudget, recordUsage } from "../usage";
+import { SpeechAudio } from "../utils";
+import { AIProvider } from "./types";
+
+// Helper to check API Key
+const getAI = () => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new AuthError(undefined, "No API key set. Add your Gemini API key in Settings.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Whole documents take much longer to read than other requests
+const EXTRACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+
+// Length of the text parts of a request. Inline files are not counted.
+const countTextCharacters = (contents: unknown): number => {
+  if (Array.isArray(contents)) return contents.reduce((sum, c) => sum + countTextCharacters(c), 0);
+  if (!contents || typeof contents !== 'object') return 0;
+  const { text, parts } = contents as { text?: unknown; parts?: unknown };
+  return (typeof text === 'string' ? text.length : 0) + countTextCharacters(parts);
+};
+
+// Sends a request for one feature with its configured model, through the
+// shared request layer (retries, timeout, cancellation). Checks the budget
+// first, records the tokens used, and turns blocked responses into a
+// SafetyBlockedError.
+const generate = async (
+  feature: ModelCapability,
+  params: Omit<GenerateContentParameters, 'model'>,
+  options: RequestOptions,
+  timeoutMs?: number
+): Promise<GenerateContentResponse> => {
+  const ai = getAI();
+  const model = getModel(feature);
+  await checkBudget(feature, options);
+  const response = await runRequest(
+    signal => ai.models.generateContent({ ...params, model, config: { ...params.config, abortSignal: signal } }),
+    { ...options, timeoutMs }
+  );
+  const usage = response.usageMetadata;
+  recordUsage({
+    feature,
+    model,
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    characters: countTextCharacters(params.contents),
+    documentId: options.documentId,
+  });
+
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`);
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Response blocked: ${finishReason}`);
+  }
+  return response;
+};
+
+// 1. Text Extraction (for Reader)
+// Returns the model's structured output as-is, so that parts of a large
+// document can be merged before it is flattened.
+const extractDocumentStructure = async (
+  fileBase64: string,
+  mimeType: string,
+  options: RequestOptions = {}
+): Promise<RawExtraction> => {
+  const response = await generate('extraction', {
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: fileBase64,
+          },
+        },
+        {
+          text: `Extract all legible text from this document in reading order, keeping its structure.
+                 Group the body text into sections, one per heading (chapter, section or subsection), with the heading text,
+                 its level (1 = chapter, 2 = section, 3 = subsection) and the page number where it starts.
+                 Text before the first heading goes in a section with an empty heading.
+                 Give every paragraph the page number it starts on.
+                 Do NOT include footnotes, running headers, running footers or page numbers in the paragraphs:
+                 return footnotes separately and list the header/footer lines you left out.
+                 Also detect the primary language (return 'es' for Spanish, 'en' for English, or others).`,
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          language: { type: Type.STRING },
+          sections: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                heading: { type: Type.STRING },
+                level: { type: Type.INTEGER },
+                page: { type: Type.INTEGER },
+                paragraphs: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      text: { type: Type.STRING },
+                      page: { type: Type.INTEGER },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          footnotes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                page: { type: Type.INTEGER },
+                marker: { type: Type.STRING },
+                text: { type: Type.STRING },
+              },
+            },
+          },
+          headersFooters: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+      },
+    },
+  }, options, EXTRACTION_TIMEOUT_MS);
+
+  return parseJsonResponse<RawExtraction>(response.text);
+};
+
+// 2. TTS Generation
+// Multi-speaker requests name each speaker in the script and map the names
+// to voices.
+const generateSpeech = async (text: string, voice: string | SpeakerVoice[], options: RequestOptions = {}): Promise<SpeechAudio> => {
+  const speechConfig = typeof voice === 'string'
+    ? { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } }
+    : {
+        multiSpeakerVoiceConfig: {
+          speakerVoiceConfigs: voice.map(({ speaker, voiceName }) => ({
+            speaker,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+          })),
+        },
+      };
+  const response = await generate('speech', {
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig,
+    },
+  }, options);
+
+  // The MIME type carries the PCM sample rate
+  const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+  if (!audio?.data) {
+    throw new Error("Failed to generate speech audio.");
+  }
+  return { data: audio.data, mimeType: audio.mimeType ?? '' };
+};
+
+// 3. Audio Transcription
+const transcribeAudio = async (audioBase64: string, mimeType: string, knownSpeakers: string[], options: RequestOptions = {}): Promise<Transcript> => {
+  const response = await generate('transcription', {
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: audioBase64,
+          },
+        },
+        {
+          text: `Transcribe this audio accurately, word for word.
+                 Split it into segments at each change of speaker and at natural pauses, each at most about 30 seconds long.
+                 For each segment give its start and end time in seconds from the start of the audio, the speaker, and the words spoken.
+                 Label speakers "Speaker 1", "Speaker 2" and so on in order of appearance, or by name when the recording makes their names clear.
+                 ${knownSpeakers.length > 0 ? `Speakers heard so far: ${knownSpeakers.join(', ')}. Reuse these labels for the same voices.` : ''}
+                 Also give the main language spoken as an ISO 639-1 code. If no one speaks, return no segments.`,
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          language: { type: Type.STRING },
+          segments: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                start: { type: Type.NUMBER },
+                end: { type: Type.NUMBER },
+                speaker: { type: Type.STRING },
+                text: { type: Type.STRING },
+              },
+              required: ['start', 'end', 'speaker', 'text'],
+            },
+          },
+        },
+        required: ['language', 'segments'],
+      },
+    },
+  }, options);
+
+  return parseJsonResponse<Transcript>(response.text);
+};
+
+// 4. Image Analysis
+const analyzeImage = async (imageBase64: string, mimeType: string, prompt: string, options: RequestOptions = {}): Promise<string> => {
+  const response = await generate('analysis', {
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: imageBase64,
+          },
+        },
+        {
+          text: prompt || "Analyze this image in detail.",
+        },
+      ],
+    },
+  }, options);
+
+  return response.text || "Analysis failed.";
+};
+
+// 5. Image Generation
+const generateImage = async (prompt: string, size: ImageSize, options: RequestOptions = {}): Promise<string> => {
+  const response = await generate('generation', {
+    contents: {
+      parts: [{ text: prompt }],
+    },
+    config: {
+      imageConfig: {
+        imageSize: size,
+      },
+    },
+  }, options);
+
+  // Extract image
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return part.inlineData.data;
+    }
+  }
+  
+  throw new Error("No image generated.");
+};
+
+// 6. Dialogue Attribution
+const attributeDialogue = async (text: string, knownSpeakers: string[], options: RequestOptions = {}): Promise<DialogueLine[]> => {
+  const response = await generate('dialogue', {
+    contents: {
+      parts: [
+        {
+          text: `List every line of spoken dialogue in the passage that follows, in order, with the character who speaks it.
+                 Copy each line's words exactly as written, without the quotation marks or dashes around them,
+                 and without the narration between them ("she said", "he replied").
+                 In a play or script, each character's speech is a line and the character name before it is not part of it.
+                 Use one consistent name per character. ${knownSpeakers.length > 0 ? `Characters found so far: ${knownSpeakers.join(', ')}. Reuse these names for the same characters.` : ''}
+                 If the speaker cannot be told, use "Unknown". Narration is not dialogue: leave it out.`,
+        },
+        { text },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            speaker: { type: Type.STRING },
+            quote: { type: Type.STRING },
+          },
+          required: ['speaker', 'quote'],
+        },
+      },
+    },
+  }, options);
+
+  return parseJsonResponse<DialogueLine[]>(response.text);
+};
+
+// 7. Transcript Summary, Action Items and Decisions
+const SUMMARY_LENGTHS: Record<SummaryLength, string> = {
+  short: 'in two or three sentences',
+  medium: 'in one or two paragraphs',
+  long: 'in several paragraphs covering each topic discussed in turn',
+};
+
+const summarizeTranscript = async (text: string, length: SummaryLength, options: RequestOptions = {}): Promise<string> => {
+  const response = await generate('summary', {
+    contents: {
+      parts: [
+        {
+          text: `Summarize the conversation in the transcript that follows ${SUMMARY_LENGTHS[length]}.
+                 Each paragraph of the transcript is one speaker's turn, starting with the speaker's name.
+                 Write the summary in the language of the conversation, as plain prose without headings or lists.`,
+        },
+        { text },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+        },
+        required: ['summary'],
+      },
+    },
+  }, options);
+
+  return parseJsonResponse<{ summary: string }>(response.text).summary;
+};
+
+const extractActionItems = async (text: string, options: RequestOptions = {}): Promise<ActionItem[]> => {
+  const response = await generate('summary', {
+    contents: {
+      parts: [
+        {
+          text: `List the action items agreed in the conversation in the transcript that follows: tasks someone is to do after it.
+                 Each paragraph of the transcript is one speaker's turn, starting with the speaker's name.
+                 For each, give the task as a short imperative sentence and its owner, using the name as it appears in the transcript.
+                 If no one was named as the owner, leave the owner empty. Write in the language of the conversation.
+                 If no tasks were agreed, return an empty list.`,
+        },
+        { text },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            task: { type: Type.STRING },
+            owner: { type: Type.STRING },
+          },
+          required: ['task', 'owner'],
+        },
+      },
+    },
+  }, options);
+
+  return parseJsonResponse<ActionItem[]>(response.text);
+};
+
+const extractDecisions = async (text: string, options: RequestOptions = {}): Promise<string[]> => {
+  const response = await generate('summary', {
+    contents: {
+      parts: [
+        {
+          text: `List the key decisions made in the conversation in the transcript that follows, each as one sentence.
+                 Each paragraph of the transcript is one speaker's turn, starting with the speaker's name.
+                 Only include what was decided or agreed, not what was merely discussed. Write in the language of the conversation.
+                 If nothing was decided, return an empty list.`,
+        },
+        { text },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+      },
+    },
+  }, options);
+
+  return parseJsonResponse<string[]>(response.text);
+};
+
+// 8. Translation
+// The texts go as a JSON array so that the reply can be matched to them
+// one for one.
+const translateTexts = async (texts: string[], language: string, options: RequestOptions = {}): Promise<string[]> => {
+  const response = await generate('translation', {
+    contents: {
+      parts: [
+        {
+          text: `Translate each text in the JSON array that follows into the language with ISO 639-1 code "${language}".
+                 Return an array with exactly ${texts.length} translations, in the same order, one for each text.
+                 Keep names, numbers and line breaks, and translate the meaning naturally rather than word for word.
+                 A text already in that language is returned unchanged.`,
+        },
+        { text: JSON.stringify(texts) },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+      },
+    },
+  }, options);
+
+  return parseJsonResponse<string[]>(response.text);
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  extractDocumentStructure,
+  generateSpeech,
+  transcribeAudio,
+  analyzeImage,
+  generateImage,
+  attributeDialogue,
+  summarizeTranscript,
+  extractActionItems,
+  extractDecisions,
+  translateTexts,
+};
+
+export const getLiveClient = () => {
+    return getAI();
+}
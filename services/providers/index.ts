@@ -0,0 +1,23 @@
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { AIProvider } from "./types";
+
+export type { AIProvider } from "./types";
+export { geminiProvider, getLiveClient } from "./gemini";
+export { mockProvider, MOCK_EXTRACTION } from "./mock";
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Chosen at build time with AI_PROVIDER (see vite.config.ts); Gemini unless
+// set to 'mock'.
+let activeProvider: AIProvider = PROVIDERS[process.env.AI_PROVIDER ?? ''] ?? geminiProvider;
+
+export const getProvider = (): AIProvider => activeProvider;
+
+// Swaps the provider at runtime, e.g. to inject a mock in tests.
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,42 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { extractTextFromDocument } from '../geminiService';
+import { getSectionBoundaries } from '../documentModel';
+import { splitTextIntoChunks, synthesizeChunk } from '../narration';
+import { loadUsage } from '../usage';
+import { memoryStorage } from '../testUtils';
+import { mockProvider, setProvider } from '.';
+
+describe('reading a document with the mock provider', () => {
+  beforeAll(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    setProvider(mockProvider);
+  });
+
+  it('extracts, narrates chapter by chapter and records the usage', async () => {
+    const options = { documentId: 'doc-1' };
+    const document = await extractTextFromDocument('JVBERi0=', 'application/pdf', options);
+    expect(document.sections?.map(s => s.title)).toEqual(['Chapter 1. The Sample', 'Chapter 2. The Second Part']);
+    expect(document.text).not.toContain('footnote kept out');
+
+    // A small chunk size splits the first chapter too
+    const chunks = splitTextIntoChunks(document.text, getSectionBoundaries(document.sections), 120);
+    expect(chunks.length).toBeGreaterThan(2);
+    const secondChapter = document.sections![1].start;
+    expect(chunks.some(c => c.start === secondChapter)).toBe(true);
+    expect(chunks.every(c => c.start >= secondChapter || c.end <= secondChapter)).toBe(true);
+
+    const audio = await synthesizeChunk(chunks[0].text, 'Kore', options);
+    const words = chunks[0].text.split(/\s+/).filter(Boolean).length;
+    expect(audio.duration).toBeCloseTo(words / 2.5, 3);
+    expect(audio.blob.type).toBe('audio/wav');
+
+    // Usage is recorded in the background, after the call returns
+    await vi.waitFor(async () => {
+      const records = await loadUsage();
+      expect(records.map(r => r.feature).sort()).toEqual(['extraction', 'speech']);
+    });
+    const speech = (await loadUsage()).find(r => r.feature === 'speech')!;
+    expect(speech).toMatchObject({ model: 'mock', documentId: 'doc-1', characters: chunks[0].text.length });
+  });
+});
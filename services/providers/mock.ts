@@ -0,0 +1,116 @@
+import { DialogueLine, ImageSize, ModelCapability, SpeakerVoice, SummaryLength, Transcript } from "../../types";
+import { RawExtraction } from "../documentModel";
+import { RequestCancelledError, RequestOptions } from "../request";
+import { checkBudget, estimateTokens, recordUsage } from "../usage";
+import { SpeechAudio, arrayBufferToBase64 } from "../utils";
+import { AIProvider } from "./types";
+
+// Deterministic stand-in for the model, for development and automated tests
+// without network access or an API key. The same input always gives the
+// same output.
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_WORDS_PER_SECOND = 2.5;
+
+// 1x1 transparent PNG
+const MOCK_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export const MOCK_EXTRACTION: RawExtraction = {
+  language: 'en',
+  sections: [
+    {
+      heading: 'Chapter 1. The Sample',
+      level: 1,
+      page: 1,
+      paragraphs: [
+        { text: 'This document was produced by the mock provider. It stands in for the text a model would extract.', page: 1 },
+        { text: 'Every extraction returns the same fixture, so flows that depend on it can be tested reliably.', page: 1 },
+      ],
+    },
+    {
+      heading: 'Chapter 2. The Second Part',
+      level: 1,
+      page: 2,
+      paragraphs: [
+        { text: 'A second chapter gives the table of contents more than one entry. It also spans a page break.', page: 2 },
+      ],
+    },
+  ],
+  footnotes: [{ page: 1, marker: '1', text: 'A footnote kept out of the narration.' }],
+  headersFooters: ['Mock Document — page 1', 'Mock Document — page 2'],
+};
+
+// Silent speech as Gemini returns it: raw 16-bit mono PCM, with a length
+// that follows the word count so that chunk durations and read-along
+// timings behave like real narration.
+const silentSpeech = (text: string): SpeechAudio => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const samples = Math.max(1, Math.round((words / MOCK_WORDS_PER_SECOND) * MOCK_SAMPLE_RATE));
+  return { data: arrayBufferToBase64(new ArrayBuffer(samples * 2)), mimeType: `audio/L16;codec=pcm;rate=${MOCK_SAMPLE_RATE}` };
+};
+
+// Quoted passages, attributed to two characters in turn
+const QUOTED = /[“"«]([^”"»]+)[”"»]/g;
+const MOCK_SPEAKERS = ['Character A', 'Character B'];
+
+const findMockDialogue = (text: string): DialogueLine[] => {
+  return [...text.matchAll(QUOTED)].map((match, i) => ({ speaker: MOCK_SPEAKERS[i % MOCK_SPEAKERS.length], quote: match[1] }));
+};
+
+// Two speakers taking turns, so speaker renaming and exports have
+// something to work with
+const mockTranscript = (bytes: number, mimeType: string): Transcript => ({
+  language: 'en',
+  segments: [
+    { start: 0, end: 4, speaker: 'Speaker 1', text: `Mock transcription of ${bytes} bytes of ${mimeType} audio.` },
+    { start: 4, end: 8, speaker: 'Speaker 2', text: 'A second speaker replies.' },
+  ],
+});
+
+const firstSpeaker = (text: string) => text.match(/^([^:\n]+):/)?.[1] ?? '';
+
+// Fails like a real request would when the caller has already cancelled,
+// and records usage like the Gemini provider, with estimated tokens.
+const respond = async <T extends string | object>(
+  feature: ModelCapability,
+  options: RequestOptions | undefined,
+  characters: number,
+  result: () => T
+): Promise<T> => {
+  if (options?.signal?.aborted) throw new RequestCancelledError();
+  await checkBudget(feature, options);
+  const output = result();
+  recordUsage({
+    feature,
+    model: 'mock',
+    inputTokens: estimateTokens(characters),
+    outputTokens: estimateTokens(typeof output === 'string' ? output.length : JSON.stringify(output).length),
+    characters,
+    documentId: options?.documentId,
+  });
+  return output;
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  extractDocumentStructure: (_fileBase64: string, _mimeType: string, options?: RequestOptions) =>
+    respond('extraction', options, 0, () => structuredClone(MOCK_EXTRACTION)),
+  generateSpeech: (text: string, _voice: string | SpeakerVoice[], options?: RequestOptions) =>
+    respond('speech', options, text.length, () => silentSpeech(text)),
+  transcribeAudio: (audioBase64: string, mimeType: string, _knownSpeakers: string[], options?: RequestOptions) =>
+    respond('transcription', options, 0, () => mockTranscript(Math.floor(audioBase64.length * 3 / 4), mimeType)),
+  analyzeImage: (_imageBase64: string, mimeType: string, prompt: string, options?: RequestOptions) =>
+    respond('analysis', options, prompt.length, () => `Mock analysis of a ${mimeType} image. Prompt: ${prompt || "Analyze this image in detail."}`),
+  generateImage: (prompt: string, _size: ImageSize, options?: RequestOptions) =>
+    respond('generation', options, prompt.length, () => MOCK_IMAGE_BASE64),
+  attributeDialogue: (text: string, _knownSpeakers: string[], options?: RequestOptions) =>
+    respond('dialogue', options, text.length, () => findMockDialogue(text)),
+  summarizeTranscript: (text: string, length: SummaryLength, options?: RequestOptions) =>
+    respond('summary', options, text.length, () => `Mock ${length} summary of ${text.split(/\s+/).filter(Boolean).length} words of conversation.`),
+  extractActionItems: (text: string, options?: RequestOptions) =>
+    respond('summary', options, text.length, () => [{ task: 'Review the mock transcript', owner: firstSpeaker(text) }]),
+  extractDecisions: (text: string, options?: RequestOptions) =>
+    respond('summary', options, text.length, () => ['Use the mock provider for testing']),
+  translateTexts: (texts: string[], language: string, options?: RequestOptions) =>
+    respond('translation', options, texts.join('').length, () => texts.map(text => `[${language}] ${text}`)),
+};
@@ -0,0 +1,35 @@
+import { ActionItem, DialogueLine, ImageSize, SpeakerVoice, SummaryLength, Transcript } from "../../types";
+import { RawExtraction } from "../documentModel";
+import { RequestOptions } from "../request";
+import { SpeechAudio } from "../utils";
+
+// The model capabilities the app relies on. Every call can be cancelled
+// through `options.signal` and fails with one of the request errors. Live
+// conversations are not part of it: they need a streaming session that
+// only Gemini offers.
+export interface AIProvider {
+  name: string;
+  // Structured text of a PDF or image, flattened later by the document model
+  extractDocumentStructure: (fileBase64: string, mimeType: string, options?: RequestOptions) => Promise<RawExtraction>;
+  // Audio of the text read aloud with the given voice, with its MIME type
+  // (raw PCM names its sample rate there). With a list of speakers (at
+  // most two), the text is a script of "Speaker: line" lines.
+  generateSpeech: (text: string, voice: string | SpeakerVoice[], options?: RequestOptions) => Promise<SpeechAudio>;
+  // Lines of dialogue in the passage and who speaks them. Known speakers
+  // are names already used for earlier passages of the same document.
+  attributeDialogue: (text: string, knownSpeakers: string[], options?: RequestOptions) => Promise<DialogueLine[]>;
+  // Timed, speaker-labelled segments of the recording. Known speakers are
+  // labels already used for earlier parts of the same recording.
+  transcribeAudio: (audioBase64: string, mimeType: string, knownSpeakers: string[], options?: RequestOptions) => Promise<Transcript>;
+  // Summary of a transcript, given as "Speaker: text" turns
+  summarizeTranscript: (text: string, length: SummaryLength, options?: RequestOptions) => Promise<string>;
+  // Tasks agreed in a transcript, with who is to do them
+  extractActionItems: (text: string, options?: RequestOptions) => Promise<ActionItem[]>;
+  // Decisions made in a transcript
+  extractDecisions: (text: string, options?: RequestOptions) => Promise<string[]>;
+  // The texts translated into an ISO 639-1 language, in the same order
+  translateTexts: (texts: string[], language: string, options?: RequestOptions) => Promise<string[]>;
+  analyzeImage: (imageBase64: string, mimeType: string, prompt: string, options?: RequestOptions) => Promise<string>;
+  // Base64 image data
+  generateImage: (prompt: string, size: ImageSize, options?: RequestOptions) => Promise<string>;
+}
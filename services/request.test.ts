@@ -0,0 +1,25 @@
+import { ApiError } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { AuthError, InvalidInputError, NetworkError, QuotaError, ServerError, classifyError } from './request';
+
+const apiError = (status: number, message = 'Failed') => new ApiError({ status, message });
+
+describe('classifyError', () => {
+  it('sorts API errors by status before looking at the message', () => {
+    expect(classifyError(apiError(401))).toBeInstanceOf(AuthError);
+    expect(classifyError(apiError(403))).toBeInstanceOf(AuthError);
+    expect(classifyError(apiError(429, 'Quota exceeded for this API key'))).toBeInstanceOf(QuotaError);
+    expect(classifyError(apiError(503, 'API key service unavailable'))).toBeInstanceOf(ServerError);
+    expect(classifyError(apiError(400, 'Unsupported MIME type'))).toBeInstanceOf(InvalidInputError);
+  });
+
+  it('recognises a rejected key sent back as a bad request', () => {
+    const body = '{"error":{"code":400,"status":"INVALID_ARGUMENT","details":[{"reason":"API_KEY_INVALID"}]}}';
+    expect(classifyError(apiError(400, body))).toBeInstanceOf(AuthError);
+    expect(classifyError(apiError(400, 'API key not valid. Please pass a valid API key.'))).toBeInstanceOf(AuthError);
+  });
+
+  it('treats a failed fetch as a network error', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,186 @@
+import { ApiError } from "@google/genai";
+
+// Shared wrapper for model requests: a timeout per attempt, retries with
+// exponential backoff for transient failures, cancellation through an
+// AbortSignal, and errors sorted into the kinds the UI can act on.
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  documentId?: string; // Library document the usage is counted against
+}
+
+interface RunOptions extends RequestOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+// Base class for failed model requests. The message is meant for the user;
+// the provider's own message, if any, is kept in `detail`.
+export class AIRequestError extends Error {
+  retryable: boolean;
+  detail?: string;
+
+  constructor(message: string, options: { retryable?: boolean; detail?: string } = {}) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.retryable = options.retryable ?? false;
+    this.detail = options.detail;
+  }
+}
+
+// Also thrown before any request is made when no key is set, with its own
+// message.
+export class AuthError extends AIRequestError {
+  constructor(detail?: string, message = 'The API key was rejected. Check the key in Settings.') {
+    super(message, { detail });
+    this.name = 'AuthError';
+  }
+}
+
+// Rate limits and exhausted quotas both come back as HTTP 429. Retried,
+// since rate limits clear after a short wait.
+export class QuotaError extends AIRequestError {
+  constructor(detail?: string) {
+    super('The API quota or rate limit was reached. Wait a minute and try again, or check the limits of your plan.', { retryable: true, detail });
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockedError extends AIRequestError {
+  constructor(detail?: string) {
+    super('The model declined to process this content for safety reasons. Try a different file or prompt.', { detail });
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidInputError extends AIRequestError {
+  constructor(detail?: string) {
+    super(`The request was rejected${detail ? `: ${detail}` : ''}. Check the file type and the models chosen in Settings.`, { detail });
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class ParseError extends AIRequestError {
+  constructor(detail?: string) {
+    super('The model returned a response that could not be read. Try again.', { detail });
+    this.name = 'ParseError';
+  }
+}
+
+export class ServerError extends AIRequestError {
+  constructor(detail?: string) {
+    super('The model service is having problems. Try again in a few minutes.', { retryable: true, detail });
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends AIRequestError {
+  constructor(detail?: string) {
+    super('Could not reach the model service. Check your connection and try again.', { retryable: true, detail });
+    this.name = 'NetworkError';
+  }
+}
+
+export class RequestTimeoutError extends AIRequestError {
+  constructor() {
+    super('The request took too long and was stopped. Try again, or try a smaller file.', { retryable: true });
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class RequestCancelledError extends AIRequestError {
+  constructor() {
+    super('Cancelled.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const isCancelled = (err: unknown): boolean => err instanceof RequestCancelledError;
+
+// Sorts an error thrown by the SDK (or fetch) into one of the kinds above.
+export const classifyError = (err: unknown): AIRequestError => {
+  if (err instanceof AIRequestError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (err instanceof ApiError) {
+    if (err.status === 401 || err.status === 403) return new AuthError(message);
+    if (err.status === 429) return new QuotaError(message);
+    if (err.status >= 500) return new ServerError(message);
+    // Gemini answers a bad key with a 400 whose body carries the reason
+    // API_KEY_INVALID; the wording is only a fallback for other proxies.
+    if (message.includes('API_KEY_INVALID') || /api key/i.test(message)) return new AuthError(message);
+    if (err.status >= 400) return new InvalidInputError(message);
+  }
+  // fetch rejects with a TypeError when the network is down
+  if (err instanceof TypeError) return new NetworkError(message);
+  return new AIRequestError(message);
+};
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RequestCancelledError();
+};
+
+// Doubles the wait after each attempt, with jitter so parallel requests
+// don't retry in lockstep.
+const getBackoffDelay = (attempt: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) + Math.random() * BASE_DELAY_MS / 2;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs a request, retrying rate limits, server errors, network failures
+// and timeouts. `run` receives a signal that aborts when the caller cancels
+// or the attempt times out, and should pass it on to the SDK.
+export const runRequest = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: RunOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let error: AIRequestError;
+    try {
+      return await run(controller.signal);
+    } catch (err) {
+      error = signal?.aborted ? new RequestCancelledError() : timedOut ? new RequestTimeoutError() : classifyError(err);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!error.retryable || attempt >= retries) throw error;
+    await sleep(getBackoffDelay(attempt), signal);
+  }
+};
+
+// Parses a JSON response from the model, which can be cut off or malformed.
+export const parseJsonResponse = <T>(text: string | undefined): T => {
+  if (!text) throw new ParseError('Empty response');
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new ParseError(err instanceof Error ? err.message : String(err));
+  }
+};
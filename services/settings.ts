@@ -0,0 +1,89 @@
+import { AppSettings, ImageSize, ModelCapability, ModelRate } from "../types";
+
+const SETTINGS_KEY = 'omni_settings';
+
+export const DEFAULT_MODELS: Record<ModelCapability, string> = {
+  extraction: 'gemini-3-flash-preview',
+  speech: 'gemini-2.5-flash-preview-tts',
+  transcription: 'gemini-3-flash-preview',
+  analysis: 'gemini-3-pro-preview',
+  generation: 'gemini-3-pro-image-preview', // The only model that supports imageSize
+  live: 'gemini-2.5-flash-native-audio-preview-12-2025',
+  dialogue: 'gemini-3-flash-preview',
+  summary: 'gemini-3-flash-preview',
+  translation: 'gemini-3-flash-preview',
+};
+
+// Approximate list prices of the default models. Check them against the
+// current pricing page and adjust in Settings or the Usage view.
+export const DEFAULT_RATES: Record<string, ModelRate> = {
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120 },
+  'gemini-2.5-flash-native-audio-preview-12-2025': { inputPerMillion: 3, outputPerMillion: 12, perMinute: 0.05 },
+};
+
+const NO_RATE: ModelRate = { inputPerMillion: 0, outputPerMillion: 0 };
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  models: DEFAULT_MODELS,
+  defaultVoice: 'Kore',
+  playbackRate: 1.0,
+  imageSize: ImageSize.SIZE_1K,
+  rates: DEFAULT_RATES,
+  monthlyBudget: 0,
+  favoriteVoices: [],
+  languageVoices: {},
+  lexicon: [],
+};
+
+// Fills in fields added after the settings were saved, and falls back to
+// the default model wherever a model was left blank.
+const normalizeSettings = (stored: Partial<AppSettings>): AppSettings => {
+  const models = { ...DEFAULT_MODELS };
+  for (const capability of Object.keys(DEFAULT_MODELS) as ModelCapability[]) {
+    const model = stored.models?.[capability]?.trim();
+    if (model) models[capability] = model;
+  }
+  return { ...DEFAULT_SETTINGS, ...stored, models, rates: { ...DEFAULT_RATES, ...stored.rates } };
+};
+
+let cachedSettings: AppSettings | null = null;
+
+export const getSettings = (): AppSettings => {
+  if (!cachedSettings) {
+    try {
+      const saved = localStorage.getItem(SETTINGS_KEY);
+      cachedSettings = normalizeSettings(saved ? JSON.parse(saved) : {});
+    } catch (err) {
+      console.error('Could not read settings', err);
+      cachedSettings = DEFAULT_SETTINGS;
+    }
+  }
+  return cachedSettings;
+};
+
+// Saves the settings in this browser only. The API key never leaves the
+// device except in requests to the model.
+export const saveSettings = (settings: AppSettings): AppSettings => {
+  const normalized = normalizeSettings(settings);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(normalized));
+  cachedSettings = normalized;
+  return normalized;
+};
+
+export const getModel = (capability: ModelCapability): string => getSettings().models[capability];
+
+// The user's own key if they entered one, otherwise the build-time key.
+export const getApiKey = (): string | undefined => getSettings().apiKey.trim() || process.env.API_KEY;
+
+// Models without a known rate are counted as free.
+export const getRate = (model: string): ModelRate => getSettings().rates[model] ?? NO_RATE;
+
+// The voice a new narration starts with for a document in this language.
+export const getDefaultVoice = (language: string): string => {
+  const settings = getSettings();
+  return settings.languageVoices[language] ?? settings.defaultVoice;
+};
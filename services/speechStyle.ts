@@ -0,0 +1,106 @@
+import { LexiconEntry, NarrationPace, NarrationStyle } from "../types";
+
+// Speaking style, pacing and pronunciations, applied to the text before it
+// is sent to TTS. The model takes them as a short instruction in front of
+// the text it reads.
+
+export const DEFAULT_NARRATION_STYLE: NarrationStyle = { instruction: '', pace: 'normal' };
+
+export const STYLE_PRESETS = ['Calm audiobook', 'News anchor', 'Warm storyteller', 'Lively podcast host', 'Formal lecture'];
+
+const PACE_INSTRUCTIONS: Record<NarrationPace, string> = {
+  slow: 'slow and unhurried',
+  normal: '',
+  fast: 'brisk',
+};
+
+// What is applied to a narration: the document's style and the lexicon in
+// effect for it.
+export interface SpeechDelivery {
+  style: NarrationStyle;
+  lexicon: LexiconEntry[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Terms written in capitals (acronyms) only match in capitals, so "US" is
+// not applied to "us". Other terms match in any case.
+const isAcronym = (term: string) => /\p{Lu}/u.test(term) && term === term.toUpperCase();
+
+// Document entries replace shared entries for the same term.
+export const mergeLexicons = (shared: LexiconEntry[], document: LexiconEntry[] = []): LexiconEntry[] => {
+  const overridden = new Set(document.map(entry => entry.term.trim().toLowerCase()));
+  return [...shared.filter(entry => !overridden.has(entry.term.trim().toLowerCase())), ...document];
+};
+
+// Replaces every whole-word occurrence of each term with its pronunciation.
+// Longer terms go first, so "New York City" wins over "New York".
+export const applyLexicon = (text: string, lexicon: LexiconEntry[]): string => {
+  const entries = lexicon
+    .filter(entry => entry.term.trim() && entry.pronunciation.trim())
+    .sort((a, b) => b.term.trim().length - a.term.trim().length);
+  return entries.reduce((result, entry) => {
+    const term = entry.term.trim();
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, isAcronym(term) ? 'gu' : 'giu');
+    return result.replace(pattern, entry.pronunciation.trim());
+  }, text);
+};
+
+// The instruction put in front of the text, or '' to read it as-is.
+const getStyleInstruction = (style: NarrationStyle): string => {
+  const instruction = style.instruction.trim().replace(/[.:;]+$/, '');
+  const pace = PACE_INSTRUCTIONS[style.pace];
+  const parts = [instruction && `style: ${instruction}`, pace && `pace: ${pace}`].filter(Boolean);
+  return parts.length > 0 ? `Read the following text aloud (${parts.join('; ')}):` : '';
+};
+
+// The text to send to TTS for a passage (or a multi-speaker script, whose
+// lines have already had the lexicon applied).
+export const withStyleInstruction = (text: string, style: NarrationStyle): string => {
+  const instruction = getStyleInstruction(style);
+  return instruction ? `${instruction}\n\n${text}` : text;
+};
+
+export const prepareSpeechText = (text: string, delivery: SpeechDelivery): string => {
+  return withStyleInstruction(applyLexicon(text, delivery.lexicon), delivery.style);
+};
+
+// Short fingerprint of a delivery, '' for the default.
+const getDeliveryKey = (delivery: SpeechDelivery): string => {
+  const style = getStyleInstruction(delivery.style);
+  const lexicon = delivery.lexicon
+    .filter(entry => entry.term.trim() && entry.pronunciation.trim())
+    .map(entry => `${entry.term.trim()}=${entry.pronunciation.trim()}`)
+    .sort();
+  if (!style && lexicon.length === 0) return '';
+  let hash = 5381;
+  for (const char of JSON.stringify([style, lexicon])) hash = ((hash << 5) + hash + char.charCodeAt(0)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+// Key that narration audio is cached under: the voice, plus the delivery
+// when it is not the default, so a change of style or lexicon gives a fresh
+// narration instead of the old audio.
+export const getNarrationCacheKey = (voiceName: string, delivery: SpeechDelivery): string => {
+  const key = getDeliveryKey(delivery);
+  return key ? `${voiceName}~${key}` : voiceName;
+};
+
+// Lexicons are shared as JSON files of { term, pronunciation } entries.
+export const serializeLexicon = (lexicon: LexiconEntry[]): string => {
+  return JSON.stringify(lexicon.map(({ term, pronunciation }) => ({ term, pronunciation })), null, 2);
+};
+
+export const parseLexicon = (json: string): LexiconEntry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a pronunciation lexicon.');
+  }
+  if (!Array.isArray(parsed)) throw new Error('This file is not a pronunciation lexicon.');
+  return parsed
+    .filter((entry): entry is { term: string; pronunciation: string } =>
+      typeof entry?.term === 'string' && typeof entry?.pronunciation === 'string' && entry.term.trim() !== '')
+    .map(({ term, pronunciation }) => ({ id: crypto.randomUUID(), term: term.trim(), pronunciation: pronunciation.trim() }));
+};
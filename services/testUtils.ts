@@ -0,0 +1,15 @@
+// Helpers for the unit tests, which run in Node without browser storage
+
+// In-memory stand-in for localStorage, where settings (and the legacy
+// library) are read from
+export const memoryStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() { return values.size; },
+    key: (index: number) => [...values.keys()][index] ?? null,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, String(value)); },
+    removeItem: (key: string) => { values.delete(key); },
+    clear: () => values.clear(),
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { buildSrt, buildVtt } from './transcriptExport';
+
+const transcript = {
+  language: 'en',
+  segments: [
+    { start: 0, end: 1.5, speaker: 'Ana', text: 'Hello.' },
+    { start: 3661.25, end: 3662, speaker: 'Q&A <host>', text: 'Is 1 < 2 & 3 > 2?' },
+  ],
+};
+
+describe('buildVtt', () => {
+  it('writes cues with voice spans', () => {
+    expect(buildVtt(transcript).split('\n').slice(0, 5)).toEqual(['WEBVTT', '', '00:00:00.000 --> 00:00:01.500', '<v Ana>Hello.', '']);
+  });
+
+  it('escapes markup characters in speakers and text', () => {
+    expect(buildVtt(transcript)).toContain('01:01:01.250 --> 01:01:02.000\n<v Q&amp;A &lt;host&gt;>Is 1 &lt; 2 &amp; 3 &gt; 2?\n');
+  });
+
+  it('collapses blank lines so the text stays in one cue', () => {
+    const segments = [{ start: 0, end: 2, speaker: 'Ana', text: 'First line.\n\n \nSecond line.\n' }];
+    expect(buildVtt({ language: 'en', segments })).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:02.000\n<v Ana>First line.\nSecond line.\n');
+    expect(buildSrt({ language: 'en', segments })).toBe('1\n00:00:00,000 --> 00:00:02,000\nAna: First line.\nSecond line.\n');
+  });
+});
+
+describe('buildSrt', () => {
+  it('numbers the cues and keeps the text as it is', () => {
+    expect(buildSrt(transcript)).toBe('1\n00:00:00,000 --> 00:00:01,500\nAna: Hello.\n\n2\n01:01:01,250 --> 01:01:02,000\nQ&A <host>: Is 1 < 2 & 3 > 2?\n');
+  });
+});
@@ -0,0 +1,111 @@
+import JSZip from "jszip";
+import { Transcript } from "../types";
+import { formatTime } from "./utils";
+
+// Transcript exports: subtitles (SRT, WebVTT), plain text, Markdown and a
+// Word document.
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'docx';
+
+// hh:mm:ss plus milliseconds after the given separator
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// A blank line ends a cue in both subtitle formats, so runs of them inside
+// the text are collapsed into a single line break
+const cueText = (text: string) => text.trim().replace(/\n\s*\n/g, '\n');
+
+export const buildSrt = (transcript: Transcript): string => {
+  return transcript.segments
+    .map((segment, i) => `${i + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${segment.speaker}: ${cueText(segment.text)}\n`)
+    .join('\n');
+};
+
+// Cue text is markup, so these characters must be written as entities
+const escapeVtt = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+// Speakers are written as voice spans, which players can style or show
+export const buildVtt = (transcript: Transcript): string => {
+  const cues = transcript.segments.map(segment =>
+    `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n<v ${escapeVtt(segment.speaker)}>${escapeVtt(cueText(segment.text))}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+};
+
+export const buildPlainText = (transcript: Transcript): string => {
+  return transcript.segments.map(segment => `[${formatTime(segment.start)}] ${segment.speaker}: ${segment.text}`).join('\n');
+};
+
+export const buildTranscriptMarkdown = (transcript: Transcript, title: string): string => {
+  const lines = [`# Transcript: ${title}`, ''];
+  for (const segment of transcript.segments) {
+    lines.push(`**${segment.speaker}** (${formatTime(segment.start)})  `, segment.text, '');
+  }
+  return lines.join('\n');
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const docxRun = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+// A minimal WordprocessingML package: the title, then one paragraph per
+// segment with the speaker in bold and the time in grey.
+export const buildDocx = async (transcript: Transcript, title: string): Promise<Blob> => {
+  const paragraphs = [
+    `<w:p>${docxRun(title, '<w:b/><w:sz w:val="36"/>')}</w:p>`,
+    ...transcript.segments.map(segment =>
+      `<w:p>${docxRun(`${segment.speaker} `, '<w:b/>')}${docxRun(`(${formatTime(segment.start)}) `, '<w:color w:val="808080"/>')}${docxRun(segment.text)}</w:p>`),
+  ];
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '</Relationships>');
+  zip.file('word/document.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:body>${paragraphs.join('')}</w:body>` +
+    '</w:document>');
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
+
+const MIME_TYPES: Record<Exclude<TranscriptFormat, 'docx'>, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  txt: 'text/plain',
+  md: 'text/markdown',
+};
+
+// The transcript as a file, named after the recording
+export const exportTranscript = async (
+  transcript: Transcript,
+  format: TranscriptFormat,
+  sourceName: string
+): Promise<{ blob: Blob; fileName: string }> => {
+  const title = sourceName.replace(/\.[^.]+$/, '');
+  const fileName = `${title}-transcript.${format}`;
+  if (format === 'docx') return { blob: await buildDocx(transcript, title), fileName };
+  const text = format === 'srt' ? buildSrt(transcript)
+    : format === 'vtt' ? buildVtt(transcript)
+    : format === 'txt' ? buildPlainText(transcript)
+    : buildTranscriptMarkdown(transcript, title);
+  return { blob: new Blob([text], { type: MIME_TYPES[format] }), fileName };
+};
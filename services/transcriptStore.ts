@@ -0,0 +1,45 @@
+import { TranscriptItem } from "../types";
+import { TRANSCRIPTS_STORE, TRANSCRIPT_AUDIO_STORE, withStore } from "./db";
+
+// The transcript library: transcripts and the recordings they came from.
+
+interface TranscriptAudio {
+  id: string; // The TranscriptItem's id
+  blob: Blob;
+}
+
+// All transcripts, newest first.
+export const loadTranscripts = async (): Promise<TranscriptItem[]> => {
+  const items = await withStore<TranscriptItem[]>(TRANSCRIPTS_STORE, 'readonly', store => store.getAll());
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const putTranscript = async (item: TranscriptItem): Promise<void> => {
+  await withStore(TRANSCRIPTS_STORE, 'readwrite', store => store.put(item));
+};
+
+// Merges the updates into the saved transcript within one transaction, so
+// updates that finish at the same time don't undo each other.
+export const updateTranscript = async (id: string, updates: Partial<TranscriptItem>): Promise<void> => {
+  await withStore(TRANSCRIPTS_STORE, 'readwrite', store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...updates });
+    };
+  });
+};
+
+export const saveTranscriptAudio = async (id: string, blob: Blob): Promise<void> => {
+  const record: TranscriptAudio = { id, blob };
+  await withStore(TRANSCRIPT_AUDIO_STORE, 'readwrite', store => store.put(record));
+};
+
+export const loadTranscriptAudio = async (id: string): Promise<Blob | null> => {
+  const record = await withStore<TranscriptAudio | undefined>(TRANSCRIPT_AUDIO_STORE, 'readonly', store => store.get(id));
+  return record?.blob ?? null;
+};
+
+export const deleteTranscript = async (id: string): Promise<void> => {
+  await withStore(TRANSCRIPTS_STORE, 'readwrite', store => store.delete(id));
+  await withStore(TRANSCRIPT_AUDIO_STORE, 'readwrite', store => store.delete(id));
+};
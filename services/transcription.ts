@@ -0,0 +1,208 @@
+import { Transcript, TranscriptItem, TranscriptSegment, TranscriptTranslation } from "../types";
+import { transcribeAudio, translateTexts } from "./geminiService";
+import { RequestCancelledError, RequestOptions } from "./request";
+import { PcmAudio, blobToBase64, float32To16BitPCM, pcmToWav } from "./utils";
+
+// Long recordings are decoded in the browser, cut into overlapping
+// segments and transcribed one segment at a time. The overlap keeps words
+// at a cut from being lost; what both segments heard is kept once when
+// their transcripts are merged.
+
+// Speech needs no more than 16 kHz mono, which keeps each segment small
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+// Five minutes of 16 kHz WAV is about 9.6 MB, well inside the inline
+// request limit once base64-encoded
+export const SEGMENT_SECONDS = 300;
+export const OVERLAP_SECONDS = 5;
+// Files up to this size and length are sent as they are, without decoding
+const MAX_WHOLE_FILE_BYTES = 12 * 1024 * 1024;
+
+// Words compared when looking for the overlap between two segments
+const MAX_OVERLAP_WORDS = 40;
+const MIN_OVERLAP_WORDS = 4;
+// Words a segment may start with before the repeated part, e.g. a word cut
+// in half at the segment start
+const MAX_OVERLAP_OFFSET = 3;
+
+export interface AudioSegment {
+  start: number; // Seconds
+  end: number;
+}
+
+// Segments covering the whole duration. Each starts OVERLAP_SECONDS before
+// the previous one ends.
+export const planSegments = (
+  duration: number,
+  segmentSeconds = SEGMENT_SECONDS,
+  overlapSeconds = OVERLAP_SECONDS
+): AudioSegment[] => {
+  const segments: AudioSegment[] = [];
+  let start = 0;
+  do {
+    const end = Math.min(duration, start + segmentSeconds);
+    segments.push({ start, end });
+    start = end - overlapSeconds;
+  } while (segments[segments.length - 1].end < duration);
+  return segments;
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Removes the words `next` repeats from the end of `previous`: the longest
+// run of words that ends one and (near) starts the other. Returns `next`
+// unchanged when there is no such run.
+const stripRepeatedWords = (previous: string, next: string): string => {
+  const tail = (previous.match(/\S+/g) ?? []).slice(-MAX_OVERLAP_WORDS).map(normalizeWord);
+  const head = [...next.matchAll(/\S+/g)].slice(0, MAX_OVERLAP_WORDS + MAX_OVERLAP_OFFSET);
+  const headWords = head.map(match => normalizeWord(match[0]));
+
+  for (let length = Math.min(tail.length, MAX_OVERLAP_WORDS); length >= MIN_OVERLAP_WORDS; length--) {
+    const run = tail.slice(-length);
+    for (let offset = 0; offset <= MAX_OVERLAP_OFFSET && offset + length <= headWords.length; offset++) {
+      if (run.every((word, i) => word === headWords[offset + i])) {
+        const resume = head[offset + length];
+        return resume ? next.slice(resume.index!) : '';
+      }
+    }
+  }
+  return next;
+};
+
+// Adds the transcript of an audio segment to the transcript so far. Times
+// are shifted by the segment's start. In the overlap, segments of the
+// earlier part that start after the middle are replaced by the later
+// part's, and words spoken across the cut are kept once.
+export const appendTranscript = (transcript: Transcript, part: Transcript, partStart: number, overlapEnd: number): Transcript => {
+  const cut = (partStart + overlapEnd) / 2;
+  const kept = transcript.segments.filter(segment => segment.start < cut);
+  const added = part.segments
+    .map(segment => ({ ...segment, start: segment.start + partStart, end: segment.end + partStart }))
+    .filter(segment => segment.end > cut);
+
+  const last = kept[kept.length - 1];
+  if (last && added.length > 0) {
+    const text = stripRepeatedWords(last.text, added[0].text).trim();
+    if (text) added[0] = { ...added[0], start: Math.max(added[0].start, Math.min(last.end, added[0].end)), text };
+    else added.shift();
+  }
+  return { language: transcript.language || part.language, segments: [...kept, ...added] };
+};
+
+export const getSpeakers = (transcript: Transcript): string[] => {
+  return [...new Set(transcript.segments.map(segment => segment.speaker))];
+};
+
+// The transcript as document text: one paragraph per speaker turn, so it
+// can be narrated in the Reader.
+export const getTranscriptText = (transcript: Transcript): string => {
+  const turns: { speaker: string; text: string[] }[] = [];
+  for (const segment of transcript.segments) {
+    const last = turns[turns.length - 1];
+    if (last?.speaker === segment.speaker) last.text.push(segment.text);
+    else turns.push({ speaker: segment.speaker, text: [segment.text] });
+  }
+  return turns.map(turn => `${turn.speaker}: ${turn.text.join(' ')}`).join('\n\n');
+};
+
+const foldCase = (value: string) => value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export interface TranscriptMatch {
+  item: TranscriptItem;
+  segments: TranscriptSegment[]; // Segments with a search term, at most a few
+}
+
+const MAX_MATCHING_SEGMENTS = 3;
+
+// Transcripts containing every search term, in their file name, speakers or
+// text, ignoring case and accents.
+export const searchTranscripts = (items: TranscriptItem[], query: string): TranscriptMatch[] => {
+  const terms = foldCase(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  const results: TranscriptMatch[] = [];
+  for (const item of items) {
+    const segmentTexts = item.transcript.segments.map(segment => foldCase(`${segment.speaker} ${segment.text}`));
+    const all = `${foldCase(item.fileName)}\n${segmentTexts.join('\n')}`;
+    if (!terms.every(term => all.includes(term))) continue;
+    const segments = item.transcript.segments
+      .filter((_, i) => terms.some(term => segmentTexts[i].includes(term)))
+      .slice(0, MAX_MATCHING_SEGMENTS);
+    results.push({ item, segments });
+  }
+  return results;
+};
+
+// Renaming to an existing speaker's name merges the two.
+export const renameSpeaker = (transcript: Transcript, from: string, to: string): Transcript => ({
+  ...transcript,
+  segments: transcript.segments.map(segment => segment.speaker === from ? { ...segment, speaker: to } : segment),
+});
+
+// Translates segment by segment, so the translation lines up with the
+// transcript's times and speakers.
+export const translateTranscript = async (
+  transcript: Transcript,
+  language: string,
+  options: RequestOptions = {}
+): Promise<TranscriptTranslation> => ({
+  language,
+  segments: await translateTexts(transcript.segments.map(segment => segment.text), language, options),
+});
+
+// Decodes any audio the browser can play to 16 kHz mono PCM
+const decodeForTranscription = async (audio: Blob): Promise<PcmAudio> => {
+  const context = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+  const mixed = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mixed[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return { samples: new Int16Array(float32To16BitPCM(mixed)), sampleRate: buffer.sampleRate };
+};
+
+export interface TranscriptionProgress {
+  transcript: Transcript; // The segments done so far
+  done: number;
+  total: number;
+}
+
+// Transcribes a recording of any length, reporting the merged transcript
+// after each segment. Segments are requested in order; the first failure
+// stops the rest.
+export const transcribeRecording = async (
+  audio: Blob,
+  onProgress: (progress: TranscriptionProgress) => void,
+  options: RequestOptions = {}
+): Promise<{ transcript: Transcript; duration: number }> => {
+  let pcm: PcmAudio;
+  try {
+    pcm = await decodeForTranscription(audio);
+  } catch (err) {
+    // Formats the browser can't decode can still be sent whole if small
+    if (audio.size > MAX_WHOLE_FILE_BYTES) throw new Error('This audio format cannot be split for transcription. Try a WAV, MP3 or WebM file.');
+    console.error(err);
+    const transcript = await transcribeAudio(await blobToBase64(audio), audio.type, [], options);
+    return { transcript, duration: transcript.segments[transcript.segments.length - 1]?.end ?? 0 };
+  }
+
+  const duration = pcm.samples.length / pcm.sampleRate;
+  if (duration <= SEGMENT_SECONDS && audio.size <= MAX_WHOLE_FILE_BYTES) {
+    onProgress({ transcript: { language: '', segments: [] }, done: 0, total: 1 });
+    const transcript = await transcribeAudio(await blobToBase64(audio), audio.type, [], options);
+    onProgress({ transcript, done: 1, total: 1 });
+    return { transcript, duration };
+  }
+
+  const segments = planSegments(duration);
+  let transcript: Transcript = { language: '', segments: [] };
+  onProgress({ transcript, done: 0, total: segments.length });
+  for (const [i, segment] of segments.entries()) {
+    if (options.signal?.aborted) throw new RequestCancelledError();
+    const samples = pcm.samples.subarray(Math.round(segment.start * pcm.sampleRate), Math.round(segment.end * pcm.sampleRate));
+    const wav = pcmToWav({ samples, sampleRate: pcm.sampleRate });
+    const part = await transcribeAudio(await blobToBase64(wav), wav.type, getSpeakers(transcript), options);
+    transcript = appendTranscript(transcript, part, segment.start, segments[i - 1]?.end ?? segment.start);
+    onProgress({ transcript, done: i + 1, total: segments.length });
+  }
+  return { transcript, duration };
+};
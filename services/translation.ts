@@ -0,0 +1,120 @@
+import { DocumentSection, DocumentTranslation, HistoryItem } from "../types";
+import { translateTexts } from "./geminiService";
+import { TextRange, splitParagraphs } from "./narration";
+import { RequestOptions } from "./request";
+
+// Documents are translated paragraph by paragraph, so every paragraph of
+// the translation lines up with one of the original. Headings are
+// paragraphs too, which gives the translation a translated table of
+// contents.
+
+const PARAGRAPH_SEPARATOR = '\n\n';
+
+export const getTranslationText = (translation: DocumentTranslation): string => {
+  return translation.paragraphs.join(PARAGRAPH_SEPARATOR);
+};
+
+// Ranges of the paragraphs in the translation's text
+export const getTranslationRanges = (translation: DocumentTranslation): TextRange[] => {
+  const ranges: TextRange[] = [];
+  let start = 0;
+  for (const paragraph of translation.paragraphs) {
+    ranges.push({ start, end: start + paragraph.length });
+    start += paragraph.length + PARAGRAPH_SEPARATOR.length;
+  }
+  return ranges;
+};
+
+// The paragraph of `ranges` that contains an offset, or the last one
+// before it
+export const findParagraphAt = (ranges: TextRange[], offset: number): number => {
+  let found = -1;
+  for (const [i, range] of ranges.entries()) {
+    if (range.start > offset) break;
+    found = i;
+  }
+  return found;
+};
+
+// Translates the text in batches of paragraphs, reporting each batch. A
+// paragraph that comes back empty keeps the original, and one that comes
+// back as several is joined, so the paragraphs still line up.
+export const translateDocument = async (
+  text: string,
+  language: string,
+  onProgress: (done: number, total: number) => void,
+  options: RequestOptions = {}
+): Promise<DocumentTranslation> => {
+  const originals = splitParagraphs(text).map(range => text.slice(range.start, range.end));
+  const translated = await translateTexts(originals, language, options, onProgress);
+  return {
+    language,
+    paragraphs: translated.map((paragraph, i) => paragraph.replace(/\s*\n\s*\n\s*/g, '\n') || originals[i]),
+    createdAt: Date.now(),
+  };
+};
+
+// Moves section offsets from the original to the translation: each
+// section starts and ends at the same paragraph, and takes the translated
+// heading as its title.
+const mapSections = (text: string, translation: DocumentTranslation, sections: DocumentSection[]): DocumentSection[] => {
+  const originals = splitParagraphs(text);
+  const ranges = getTranslationRanges(translation);
+  const textLength = ranges.length > 0 ? ranges[ranges.length - 1].end : 0;
+  const toTranslation = (offset: number) => {
+    const index = originals.findIndex(range => range.start >= offset);
+    return index >= 0 && index < ranges.length ? ranges[index].start : textLength;
+  };
+  return sections.map(section => {
+    const start = toTranslation(section.start);
+    const heading = originals.findIndex(range => range.start === section.start);
+    return {
+      ...section,
+      title: translation.paragraphs[heading] ?? section.title,
+      start,
+      end: section.end >= text.length ? textLength : toTranslation(section.end),
+    };
+  });
+};
+
+// The document as narration sees it when the translation is read: the
+// translated text and sections, with the translation's own narration
+// state. Bookmarks, highlights and dialogue belong to the original and are
+// left out. Undefined if there is no translation into that language.
+export const getTranslatedItem = (item: HistoryItem, language: string): HistoryItem | undefined => {
+  const translation = item.translations?.find(t => t.language === language);
+  if (!translation) return undefined;
+  return {
+    ...item,
+    text: getTranslationText(translation),
+    language,
+    sections: item.sections && mapSections(item.text, translation, item.sections),
+    pages: undefined,
+    bookmarks: [],
+    highlights: [],
+    dialogue: undefined,
+    speakerVoices: undefined,
+    narrationVoice: translation.narrationVoice,
+    timingMap: translation.timingMap,
+    lastPosition: translation.lastPosition ?? 0,
+    lastOffset: translation.lastOffset,
+  };
+};
+
+export type NarrationState = Pick<HistoryItem, 'narrationVoice' | 'timingMap' | 'lastPosition' | 'lastOffset'>;
+
+// Applies an update to the narration state of the original (language
+// null) or of one of its translations.
+export const updateNarrationState = (
+  item: HistoryItem,
+  language: string | null,
+  update: (state: NarrationState) => Partial<NarrationState>
+): HistoryItem => {
+  if (!language) return { ...item, ...update(item) };
+  return {
+    ...item,
+    translations: item.translations?.map(t => t.language === language
+      ? { ...t, ...update({ narrationVoice: t.narrationVoice, timingMap: t.timingMap, lastPosition: t.lastPosition ?? 0, lastOffset: t.lastOffset }) }
+      : t),
+  };
+};
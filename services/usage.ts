@@ -0,0 +1,143 @@
+import { ModelCapability, ModelRate, UsageRecord } from "../types";
+import { USAGE_STORE, withStore } from "./db";
+import { AIRequestError, RequestOptions } from "./request";
+import { getSettings } from "./settings";
+
+// Local record of what every model call used, with estimated costs and an
+// optional monthly budget.
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+  seconds: number;
+  cost: number; // USD
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byFeature: Partial<Record<ModelCapability, UsageTotals>>;
+  byDocument: Record<string, UsageTotals>; // Calls without a document are left out
+}
+
+// What the budget guard is asked to approve
+export interface BudgetCheck {
+  feature: ModelCapability;
+  spent: number; // This month so far
+  estimate: number; // Expected cost of the call
+  budget: number;
+}
+
+export class BudgetExceededError extends AIRequestError {
+  constructor() {
+    super('Stopped: this would go over your monthly budget. Raise the budget in the Usage view to continue.');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const estimateCost = (record: Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'seconds'>, rate: ModelRate): number => {
+  return (record.inputTokens * rate.inputPerMillion + record.outputTokens * rate.outputPerMillion) / 1_000_000
+    + ((record.seconds ?? 0) / 60) * (rate.perMinute ?? 0);
+};
+
+// Costs use the current rates, so editing a rate re-prices past usage too.
+export const getRecordCost = (record: UsageRecord, rates: Record<string, ModelRate>): number => {
+  const rate = rates[record.model];
+  return rate ? estimateCost(record, rate) : 0;
+};
+
+export const getMonthStart = (now = new Date()): number => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export const loadUsage = (since = 0): Promise<UsageRecord[]> => {
+  return withStore(USAGE_STORE, 'readonly', store => store.index('timestamp').getAll(IDBKeyRange.lowerBound(since)));
+};
+
+export const clearUsage = async (): Promise<void> => {
+  await withStore(USAGE_STORE, 'readwrite', store => store.clear());
+};
+
+// Tracking must never fail the call it describes, so errors are only logged.
+export const recordUsage = async (usage: Omit<UsageRecord, 'id' | 'timestamp'>): Promise<void> => {
+  const record: UsageRecord = { id: crypto.randomUUID(), timestamp: Date.now(), ...usage };
+  try {
+    await withStore(USAGE_STORE, 'readwrite', store => store.put(record));
+  } catch (err) {
+    console.error('Could not record usage', err);
+  }
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, characters: 0, seconds: 0, cost: 0 });
+
+const addTo = (totals: UsageTotals, record: UsageRecord, cost: number) => {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.characters += record.characters;
+  totals.seconds += record.seconds ?? 0;
+  totals.cost += cost;
+};
+
+export const summarizeUsage = (records: UsageRecord[], rates: Record<string, ModelRate>): UsageSummary => {
+  const summary: UsageSummary = { total: emptyTotals(), byFeature: {}, byDocument: {} };
+  for (const record of records) {
+    const cost = getRecordCost(record, rates);
+    addTo(summary.total, record, cost);
+    addTo(summary.byFeature[record.feature] ??= emptyTotals(), record, cost);
+    if (record.documentId) addTo(summary.byDocument[record.documentId] ??= emptyTotals(), record, cost);
+  }
+  return summary;
+};
+
+// --- Budget ---
+
+type BudgetGuard = (check: BudgetCheck) => Promise<boolean>;
+
+let budgetGuard: BudgetGuard | null = null;
+// Month and budget the user already agreed to go over, so a long
+// narration asks once rather than before every part
+let overBudgetApprovedFor: string | null = null;
+// Parallel calls (e.g. parts of a large PDF) share one prompt
+let pendingApproval: Promise<boolean> | null = null;
+
+// Registers the prompt that asks the user whether to go over the budget.
+// Without one, calls are never blocked.
+export const setBudgetGuard = (guard: BudgetGuard | null) => {
+  budgetGuard = guard;
+};
+
+// Runs before each call. The estimate is the average cost of this month's
+// calls for the same feature, which tracks the user's typical documents
+// better than a fixed guess. Throws BudgetExceededError if the user
+// declines to go over the budget.
+export const checkBudget = async (feature: ModelCapability, options: RequestOptions = {}): Promise<void> => {
+  const { monthlyBudget, rates } = getSettings();
+  const monthStart = getMonthStart();
+  const approvalKey = `${monthStart}:${monthlyBudget}`;
+  if (!budgetGuard || monthlyBudget <= 0 || overBudgetApprovedFor === approvalKey || options.signal?.aborted) return;
+
+  let records: UsageRecord[];
+  try {
+    records = await loadUsage(monthStart);
+  } catch (err) {
+    console.error('Could not check the budget', err);
+    return;
+  }
+  const spent = records.reduce((sum, r) => sum + getRecordCost(r, rates), 0);
+  const similar = records.filter(r => r.feature === feature);
+  const estimate = similar.length > 0 ? similar.reduce((sum, r) => sum + getRecordCost(r, rates), 0) / similar.length : 0;
+  if (spent + estimate <= monthlyBudget) return;
+
+  pendingApproval ??= budgetGuard({ feature, spent, estimate, budget: monthlyBudget }).finally(() => {
+    pendingApproval = null;
+  });
+  if (await pendingApproval) {
+    overBudgetApprovedFor = approvalKey;
+    return;
+  }
+  throw new BudgetExceededError();
+};
+
+// Estimates tokens for calls whose provider reports none (roughly four
+// characters per token).
+export const estimateTokens = (characters: number): number => Math.ceil(characters / 4);
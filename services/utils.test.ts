@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  arrayBufferToBase64,
+  concatPcm,
+  decodeSpeechAudio,
+  detectAudioContainer,
+  parsePcmMimeType,
+  pcmToWav,
+  readWav,
+  resample,
+  speechToWav,
+} from './utils';
+
+// Little-endian 16-bit PCM bytes for the given samples
+const pcmBytes = (...samples: number[]) => new Uint8Array(new Int16Array(samples).buffer);
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+describe('parsePcmMimeType', () => {
+  it('reads the rate and channels of Gemini speech', () => {
+    expect(parsePcmMimeType('audio/L16;codec=pcm;rate=24000')).toEqual({ sampleRate: 24000, channels: 1 });
+    expect(parsePcmMimeType('audio/pcm; rate=16000; channels=2')).toEqual({ sampleRate: 16000, channels: 2 });
+  });
+
+  it('defaults the rate and channels', () => {
+    expect(parsePcmMimeType('audio/L16')).toEqual({ sampleRate: 24000, channels: 1 });
+    expect(parsePcmMimeType('audio/pcm;rate=abc')).toEqual({ sampleRate: 24000, channels: 1 });
+  });
+
+  it('returns null for containers and missing types', () => {
+    expect(parsePcmMimeType('audio/wav')).toBeNull();
+    expect(parsePcmMimeType('audio/mpeg')).toBeNull();
+    expect(parsePcmMimeType('')).toBeNull();
+    expect(parsePcmMimeType(undefined)).toBeNull();
+  });
+});
+
+describe('detectAudioContainer', () => {
+  it('recognizes container signatures', () => {
+    expect(detectAudioContainer(new TextEncoder().encode('RIFF\0\0\0\0WAVEfmt '))).toBe('wav');
+    expect(detectAudioContainer(new TextEncoder().encode('OggS'))).toBe('ogg');
+    expect(detectAudioContainer(new TextEncoder().encode('fLaC'))).toBe('flac');
+    expect(detectAudioContainer(new TextEncoder().encode('ID3\x04'))).toBe('mp3');
+    expect(detectAudioContainer(new Uint8Array([0xff, 0xfb, 0x90, 0x00]))).toBe('mp3');
+  });
+
+  it('takes anything else to be raw PCM', () => {
+    expect(detectAudioContainer(pcmBytes(0, 1, -1))).toBe('pcm');
+    expect(detectAudioContainer(new Uint8Array(0))).toBe('pcm');
+  });
+});
+
+describe('pcmToWav', () => {
+  it('writes a 44-byte mono 16-bit header', async () => {
+    const bytes = await blobBytes(pcmToWav({ samples: new Int16Array([1, -2, 3]), sampleRate: 24000 }));
+    const view = new DataView(bytes.buffer);
+    expect(bytes.length).toBe(44 + 6);
+    expect(ascii(bytes, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 6);
+    expect(ascii(bytes, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // Mono
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000); // Byte rate
+    expect(view.getUint16(32, true)).toBe(2); // Block align
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(bytes, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(6);
+    expect(Array.from(new Int16Array(bytes.slice(44).buffer))).toEqual([1, -2, 3]);
+  });
+});
+
+describe('readWav', () => {
+  it('round-trips what pcmToWav writes', async () => {
+    const samples = new Int16Array([0, 32767, -32768, 42]);
+    const audio = readWav(await blobBytes(pcmToWav({ samples, sampleRate: 16000 })));
+    expect(audio.sampleRate).toBe(16000);
+    expect(Array.from(audio.samples)).toEqual(Array.from(samples));
+  });
+
+  it('skips chunks before the data and mixes stereo to mono', () => {
+    const fmt = new DataView(new ArrayBuffer(24));
+    fmt.setUint32(0, 0x20746d66, true); // 'fmt '
+    fmt.setUint32(4, 16, true);
+    fmt.setUint16(8, 1, true);
+    fmt.setUint16(10, 2, true); // Stereo
+    fmt.setUint32(12, 8000, true);
+    fmt.setUint16(22, 16, true);
+    const list = new Uint8Array([...new TextEncoder().encode('LIST'), 3, 0, 0, 0, 1, 2, 3, 0]); // Odd size, padded
+    const data = pcmBytes(100, 300, -10, -30);
+    const bytes = new Uint8Array([
+      ...new TextEncoder().encode('RIFF\0\0\0\0WAVE'),
+      ...new Uint8Array(fmt.buffer),
+      ...list,
+      ...new TextEncoder().encode('data'), data.length, 0, 0, 0,
+      ...data,
+    ]);
+    const audio = readWav(bytes);
+    expect(audio.sampleRate).toBe(8000);
+    expect(Array.from(audio.samples)).toEqual([200, -20]);
+  });
+
+  it('fails without a data chunk', () => {
+    expect(() => readWav(new TextEncoder().encode('RIFF\0\0\0\0WAVE'))).toThrow('no data');
+  });
+});
+
+describe('decodeSpeechAudio', () => {
+  it('reads raw PCM at the rate in its MIME type', () => {
+    const audio = decodeSpeechAudio(pcmBytes(5, 6, 7), 'audio/L16;codec=pcm;rate=16000');
+    expect(audio.sampleRate).toBe(16000);
+    expect(Array.from(audio.samples)).toEqual([5, 6, 7]);
+  });
+
+  it('drops the last byte of odd-length PCM', () => {
+    const bytes = new Uint8Array([...pcmBytes(1, 2), 0x7f]);
+    expect(Array.from(decodeSpeechAudio(bytes, 'audio/pcm').samples)).toEqual([1, 2]);
+  });
+
+  it('reads odd-length PCM that starts at an odd offset', () => {
+    const buffer = new Uint8Array([0xaa, ...pcmBytes(-1, 300), 0x01]);
+    expect(Array.from(decodeSpeechAudio(buffer.subarray(1), 'audio/pcm').samples)).toEqual([-1, 300]);
+  });
+
+  it('trusts a PCM MIME type over a signature the samples happen to match', () => {
+    const bytes = new Uint8Array([0xff, 0xfb, 0x00, 0x00]);
+    expect(decodeSpeechAudio(bytes, 'audio/pcm;rate=24000').samples.length).toBe(2);
+  });
+
+  it('rejects compressed audio', () => {
+    expect(() => decodeSpeechAudio(new TextEncoder().encode('OggS\0\0'), 'audio/ogg')).toThrow('Unsupported OGG');
+  });
+});
+
+describe('resample', () => {
+  it('returns the samples as they are at the same rate', () => {
+    const samples = new Int16Array([1, 2, 3]);
+    expect(resample({ samples, sampleRate: 24000 }, 24000)).toBe(samples);
+  });
+
+  it('interpolates linearly', () => {
+    expect(Array.from(resample({ samples: new Int16Array([0, 100, 200, 300]), sampleRate: 8000 }, 16000)))
+      .toEqual([0, 50, 100, 150, 200, 250, 300, 300]);
+    expect(Array.from(resample({ samples: new Int16Array([0, 100, 200, 300]), sampleRate: 16000 }, 8000)))
+      .toEqual([0, 200]);
+  });
+});
+
+describe('concatPcm', () => {
+  it('joins parts in order', () => {
+    expect(Array.from(concatPcm([new Int16Array([1, 2]), new Int16Array(0), new Int16Array([3])]))).toEqual([1, 2, 3]);
+  });
+});
+
+describe('speechToWav', () => {
+  const segment = (samples: number[], mimeType: string) => ({ data: arrayBufferToBase64(pcmBytes(...samples).buffer), mimeType });
+
+  it('joins segments with mismatched rates at the first one\'s rate', async () => {
+    const { blob, duration } = speechToWav([
+      segment([10, 20, 30, 40], 'audio/L16;codec=pcm;rate=8000'),
+      segment([0, 100], 'audio/L16;codec=pcm;rate=4000'),
+    ]);
+    const audio = readWav(await blobBytes(blob));
+    expect(audio.sampleRate).toBe(8000);
+    expect(Array.from(audio.samples)).toEqual([10, 20, 30, 40, 0, 50, 100, 100]);
+    expect(duration).toBe(8 / 8000);
+  });
+
+  it('joins a WAV segment with raw PCM', async () => {
+    const wav = await blobBytes(pcmToWav({ samples: new Int16Array([7, 8]), sampleRate: 24000 }));
+    const { blob } = speechToWav([
+      { data: arrayBufferToBase64(wav.buffer), mimeType: 'audio/wav' },
+      segment([9], 'audio/L16;codec=pcm;rate=24000'),
+    ]);
+    expect(Array.from(readWav(await blobBytes(blob)).samples)).toEqual([7, 8, 9]);
+  });
+
+  it('fails with no segments', () => {
+    expect(() => speechToWav([])).toThrow('No audio');
+  });
+});
@@ -25,6 +25,23 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
+// Seconds as m:ss
+export const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+};
+
+// Saves a Blob through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 // Audio Utilities for Live API
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -49,9 +66,187 @@ export function float32To16BitPCM(float32Arr: Float32Array): ArrayBuffer {
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   let binary = '';
   const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  // In blocks, to stay below the engine's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
   return btoa(binary);
 }
+
+// --- Audio codec ---
+// Speech from the TTS and Live models arrives as raw 16-bit little-endian
+// PCM, described only by its MIME type (e.g. "audio/L16;codec=pcm;rate=24000").
+// Browsers can't play that directly, so it is decoded here and wrapped in a
+// WAV container.
+
+// Base64 audio as returned by a provider, with the MIME type it came with
+export interface SpeechAudio {
+  data: string;
+  mimeType: string;
+}
+
+// Decoded mono audio
+export interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+// What Gemini speech uses when the MIME type doesn't say
+export const DEFAULT_PCM_FORMAT: PcmFormat = { sampleRate: 24000, channels: 1 };
+
+export type AudioContainer = 'wav' | 'mp3' | 'ogg' | 'flac' | 'pcm';
+
+const WAV_HEADER_BYTES = 44;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const writeAscii = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+};
+
+// The sample format of raw PCM named by a MIME type, or null when the type
+// names a container format (or nothing). The rate and channel count default
+// to Gemini's.
+export const parsePcmMimeType = (mimeType: string | undefined): PcmFormat | null => {
+  if (!mimeType) return null;
+  const [type, ...params] = mimeType.toLowerCase().split(';').map(part => part.trim());
+  if (!['audio/l16', 'audio/pcm', 'audio/raw'].includes(type) && !params.includes('codec=pcm')) return null;
+  const param = (name: string) => Number(params.find(p => p.startsWith(`${name}=`))?.slice(name.length + 1));
+  return {
+    sampleRate: param('rate') > 0 ? param('rate') : DEFAULT_PCM_FORMAT.sampleRate,
+    channels: param('channels') > 0 ? param('channels') : DEFAULT_PCM_FORMAT.channels,
+  };
+};
+
+// Recognizes audio containers by their signature; anything else is taken
+// to be raw PCM.
+export const detectAudioContainer = (bytes: Uint8Array): AudioContainer => {
+  if (bytes.length >= 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (bytes.length >= 4 && readAscii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (bytes.length >= 4 && readAscii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (bytes.length >= 3 && readAscii(bytes, 0, 3) === 'ID3') return 'mp3';
+  if (bytes.length >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'mp3';
+  return 'pcm';
+};
+
+// Interleaved 16-bit samples, mixed down to mono. Copies the bytes, so the
+// input may start at any offset.
+const readPcmSamples = (bytes: Uint8Array, channels: number): Int16Array => {
+  const interleaved = new Int16Array(bytes.slice(0, bytes.length - (bytes.length % 2)).buffer);
+  if (channels <= 1) return interleaved;
+  const frames = Math.floor(interleaved.length / channels);
+  const mono = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += interleaved[i * channels + c];
+    mono[i] = Math.round(sum / channels);
+  }
+  return mono;
+};
+
+// Reads a 16-bit PCM WAV, walking its chunks rather than assuming a 44-byte
+// header.
+export const readWav = (bytes: Uint8Array): PcmAudio => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format = DEFAULT_PCM_FORMAT;
+  let bitsPerSample = 16;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const tag = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (tag === 'fmt ') {
+      format = { channels: view.getUint16(offset + 10, true), sampleRate: view.getUint32(offset + 12, true) };
+      bitsPerSample = view.getUint16(offset + 22, true);
+    } else if (tag === 'data') {
+      if (bitsPerSample !== 16) throw new Error(`Unsupported WAV audio (${bitsPerSample}-bit).`);
+      const data = bytes.subarray(offset + 8, Math.min(offset + 8 + size, bytes.length));
+      return { samples: readPcmSamples(data, format.channels), sampleRate: format.sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('The WAV audio has no data.');
+};
+
+// Decodes speech audio that is either a WAV file or raw PCM described by
+// its MIME type.
+export const decodeSpeechAudio = (bytes: Uint8Array, mimeType?: string): PcmAudio => {
+  const container = detectAudioContainer(bytes);
+  if (container === 'wav') return readWav(bytes);
+  // A PCM MIME type wins over the signature, which raw samples can mimic
+  const format = parsePcmMimeType(mimeType);
+  if (container !== 'pcm' && !format) throw new Error(`Unsupported ${container.toUpperCase()} audio; expected PCM or WAV.`);
+  const { sampleRate, channels } = format ?? DEFAULT_PCM_FORMAT;
+  return { samples: readPcmSamples(bytes, channels), sampleRate };
+};
+
+// Linear resampling, for the rare segment that comes back at another rate.
+export const resample = (audio: PcmAudio, sampleRate: number): Int16Array => {
+  if (audio.sampleRate === sampleRate) return audio.samples;
+  const ratio = audio.sampleRate / sampleRate;
+  const output = new Int16Array(Math.floor(audio.samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = audio.samples[Math.min(index + 1, audio.samples.length - 1)];
+    output[i] = Math.round(audio.samples[index] + (next - audio.samples[index]) * (position - index));
+  }
+  return output;
+};
+
+export const concatPcm = (parts: Int16Array[]): Int16Array => {
+  const joined = new Int16Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+};
+
+// The canonical 44-byte header of a mono 16-bit WAV holding dataBytes of
+// samples.
+const createWavHeader = (dataBytes: number, sampleRate: number): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_BYTES));
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+  return new Uint8Array(view.buffer);
+};
+
+export const pcmToWav = (audio: PcmAudio): Blob => {
+  const { samples, sampleRate } = audio;
+  const data = new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+  return new Blob([createWavHeader(data.length, sampleRate), data], { type: 'audio/wav' });
+};
+
+// Joins speech segments (e.g. the requests that make up one narration part)
+// into a single WAV at the first segment's rate.
+export const speechToWav = (segments: SpeechAudio[]): { blob: Blob; duration: number } => {
+  if (segments.length === 0) throw new Error('No audio to join.');
+  const decoded = segments.map(segment => decodeSpeechAudio(base64ToUint8Array(segment.data), segment.mimeType));
+  const sampleRate = decoded[0].sampleRate;
+  const samples = concatPcm(decoded.map(audio => resample(audio, sampleRate)));
+  return { blob: pcmToWav({ samples, sampleRate }), duration: samples.length / sampleRate };
+};
+
+// Web Audio sample values (-1 to 1) from 16-bit PCM
+export const pcm16ToFloat32 = (samples: Int16Array): Float32Array => {
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) output[i] = samples[i] / 32768;
+  return output;
+};
@@ -0,0 +1,102 @@
+import { VoiceOption } from "../types";
+import { PREVIEWS_STORE, withStore } from "./db";
+import { synthesizeChunk } from "./narration";
+
+// Every prebuilt Gemini TTS voice. All of them speak every supported
+// language; the description is the voice's character.
+const PREBUILT_VOICES: [name: string, description: string][] = [
+  ['Zephyr', 'Bright'],
+  ['Puck', 'Upbeat'],
+  ['Charon', 'Informative'],
+  ['Kore', 'Firm'],
+  ['Fenrir', 'Excitable'],
+  ['Leda', 'Youthful'],
+  ['Orus', 'Firm'],
+  ['Aoede', 'Breezy'],
+  ['Callirrhoe', 'Easy-going'],
+  ['Autonoe', 'Bright'],
+  ['Enceladus', 'Breathy'],
+  ['Iapetus', 'Clear'],
+  ['Umbriel', 'Easy-going'],
+  ['Algieba', 'Smooth'],
+  ['Despina', 'Smooth'],
+  ['Erinome', 'Clear'],
+  ['Algenib', 'Gravelly'],
+  ['Rasalgethi', 'Informative'],
+  ['Laomedeia', 'Upbeat'],
+  ['Achernar', 'Soft'],
+  ['Alnilam', 'Firm'],
+  ['Schedar', 'Even'],
+  ['Gacrux', 'Mature'],
+  ['Pulcherrima', 'Forward'],
+  ['Achird', 'Friendly'],
+  ['Zubenelgenubi', 'Casual'],
+  ['Vindemiatrix', 'Gentle'],
+  ['Sadachbia', 'Lively'],
+  ['Sadaltager', 'Knowledgeable'],
+  ['Sulafat', 'Warm'],
+];
+
+export const VOICE_CATALOGUE: VoiceOption[] = PREBUILT_VOICES.map(([name, description]) => ({
+  id: name.toLowerCase(),
+  name,
+  description,
+  geminiVoiceName: name,
+}));
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  es: 'Spanish',
+  en: 'English',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+};
+
+export const findVoice = (voiceName: string): VoiceOption | undefined =>
+  VOICE_CATALOGUE.find(v => v.geminiVoiceName === voiceName);
+
+// Favourites first, in catalogue order within each group.
+export const sortVoices = (favorites: string[]): VoiceOption[] => [
+  ...VOICE_CATALOGUE.filter(v => favorites.includes(v.geminiVoiceName)),
+  ...VOICE_CATALOGUE.filter(v => !favorites.includes(v.geminiVoiceName)),
+];
+
+const PREVIEW_TEXT: Record<string, (name: string) => string> = {
+  es: name => `Hola, soy ${name}. Así sueno leyendo tus documentos.`,
+  en: name => `Hi, I'm ${name}. This is how I sound reading your documents.`,
+};
+
+interface CachedPreview {
+  voiceName: string;
+  language: string;
+  blob: Blob;
+}
+
+// Object URLs of previews played in this session
+const previewUrls = new Map<string, string>();
+
+// A short sample of the voice in the given language. Generated once, then
+// served from IndexedDB so browsing voices doesn't cost a call each time.
+export const getVoicePreviewUrl = async (voiceName: string, language: string): Promise<string> => {
+  const sampleLanguage = PREVIEW_TEXT[language] ? language : 'en';
+  const key = `${voiceName}:${sampleLanguage}`;
+  const known = previewUrls.get(key);
+  if (known) return known;
+
+  const cached = await withStore<CachedPreview | undefined>(PREVIEWS_STORE, 'readonly', store => store.get([voiceName, sampleLanguage]))
+    .catch(() => undefined);
+  let blob = cached?.blob;
+  if (!blob) {
+    const preview = await synthesizeChunk(PREVIEW_TEXT[sampleLanguage](voiceName), voiceName);
+    URL.revokeObjectURL(preview.audioUrl);
+    blob = preview.blob;
+    const record: CachedPreview = { voiceName, language: sampleLanguage, blob };
+    // A preview that can't be cached can still be played
+    await withStore(PREVIEWS_STORE, 'readwrite', store => store.put(record))
+      .catch(err => console.error('Could not cache voice preview', err));
+  }
+  const url = URL.createObjectURL(blob);
+  previewUrls.set(key, url);
+  return url;
+};
@@ -3,7 +3,9 @@ export enum AppView {
   TRANSCRIBE = 'TRANSCRIBE', // Audio to Text
   ANALYZE = 'ANALYZE', // Image Analysis
   GENERATE = 'GENERATE', // Image Generation
-  LIVE = 'LIVE' // Conversational
+  LIVE = 'LIVE', // Conversational
+  USAGE = 'USAGE', // Cost tracking
+  SETTINGS = 'SETTINGS'
 }
 
 export interface VoiceOption {
@@ -13,15 +15,82 @@ export interface VoiceOption {
   geminiVoiceName: string;
 }
 
+// Each model-backed feature can use its own model
+export type ModelCapability = 'extraction' | 'speech' | 'transcription' | 'analysis' | 'generation' | 'live' | 'dialogue' | 'summary' | 'translation';
+
+// Price of a model in USD, used to estimate what the app costs
+export interface ModelRate {
+  inputPerMillion: number; // Per million input tokens
+  outputPerMillion: number; // Per million output tokens
+  perMinute?: number; // Per minute of live session
+}
+
+export interface AppSettings {
+  apiKey: string; // Empty to use the key the app was built with
+  models: Record<ModelCapability, string>;
+  defaultVoice: string; // Gemini voice name
+  playbackRate: number;
+  imageSize: ImageSize;
+  rates: Record<string, ModelRate>; // By model id
+  monthlyBudget: number; // USD, 0 for no budget
+  favoriteVoices: string[]; // Gemini voice names
+  languageVoices: Record<string, string>; // Default voice by language code, overrides defaultVoice
+  lexicon: LexiconEntry[]; // Pronunciations shared by every document
+}
+
+// One model call, or one live session
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  feature: ModelCapability;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number; // Text sent to the model
+  seconds?: number; // Live session length
+  documentId?: string; // Library document the call was made for
+}
+
 export interface ProcessingState {
   isLoading: boolean;
   status: string;
   error?: string;
+  cancellable?: boolean; // Shows a Cancel button while loading
 }
 
-export interface ExtractedDocument {
+// A heading in the extracted document. Offsets cover the heading and its
+// body up to the next heading of the same or a higher level.
+export interface DocumentSection {
+  title: string;
+  level: number; // 1 = chapter, 2 = section, 3 = subsection
+  page?: number;
+  start: number;
+  end: number;
+}
+
+// Text offset at which a source page begins
+export interface PageMarker {
+  page: number;
+  start: number;
+}
+
+export interface Footnote {
+  page?: number;
+  marker?: string;
   text: string;
+}
+
+// How a document's text was obtained: parsed in the browser or read by Gemini
+export type ExtractionMethod = 'local-text' | 'local-html' | 'local-markdown' | 'local-epub' | 'gemini';
+
+export interface ExtractedDocument {
+  text: string; // Narratable body text, without footnotes and running headers/footers
   language: 'es' | 'en' | string;
+  sections: DocumentSection[];
+  pages: PageMarker[];
+  footnotes: Footnote[];
+  skippedHeaderFooterLines: number;
+  method: ExtractionMethod;
 }
 
 export enum ImageSize {
@@ -34,6 +103,89 @@ export interface Bookmark {
   id: string;
   time: number;
   label: string;
+  note?: string;
+  // Text anchor: the sentence being read when the bookmark was added. Jumps
+  // use it in preference to `time`, which only fits the narration it was
+  // taken from.
+  textOffset?: number;
+  snippet?: string;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export interface Highlight {
+  id: string;
+  start: number; // Character offsets in the document text
+  end: number;
+  color: HighlightColor;
+  note?: string;
+  createdAt: number;
+}
+
+export type ChunkStatus = 'pending' | 'generating' | 'ready' | 'error';
+
+export interface NarrationChunk {
+  index: number;
+  text: string;
+  start: number; // Character offset in the document text
+  end: number;
+  status: ChunkStatus;
+  audioUrl?: string;
+  duration?: number; // Seconds, known once the audio is generated
+  error?: string;
+}
+
+// Estimated start of a sentence, in seconds from the start of its chunk.
+// TTS returns no word timestamps, so times are spread over the chunk's
+// duration in proportion to sentence length.
+export interface SentenceTiming {
+  start: number; // Character offsets in the document text
+  end: number;
+  time: number;
+}
+
+export interface ChunkTiming {
+  index: number;
+  start: number;
+  end: number;
+  duration: number;
+  sentences: SentenceTiming[];
+}
+
+export type NarrationPace = 'slow' | 'normal' | 'fast';
+
+// How a document is read aloud, sent to the TTS model as an instruction
+export interface NarrationStyle {
+  instruction: string; // e.g. "calm audiobook"; empty for the voice's own style
+  pace: NarrationPace;
+}
+
+// Replaces a word before it is sent to TTS, e.g. "SQL" -> "sequel"
+export interface LexiconEntry {
+  id: string;
+  term: string;
+  pronunciation: string; // Spelled the way it should sound
+}
+
+// A line of dialogue as the model attributed it, before it is located in
+// the text
+export interface DialogueLine {
+  speaker: string;
+  quote: string; // The spoken words, verbatim
+}
+
+// A line of dialogue located in the document text
+export interface DialogueSpan {
+  start: number; // Character offsets in the document text
+  end: number;
+  speaker: string;
+}
+
+// One speaker of a multi-speaker TTS request. `speaker` is the label used
+// in the script.
+export interface SpeakerVoice {
+  speaker: string;
+  voiceName: string;
 }
 
 export interface HistoryItem {
@@ -43,5 +195,78 @@ export interface HistoryItem {
   text: string;
   language: string;
   bookmarks: Bookmark[];
-  lastPosition: number;
+  lastPosition: number; // Seconds, estimated while earlier parts of the narration are not generated
+  lastOffset?: number; // Start of the sentence being read, where playback resumes
+  timingMap?: ChunkTiming[]; // Read-along timings of the last generated narration
+  narrationVoice?: string; // Gemini voice (or cast key) of the last narration, used to restore cached audio
+  highlights?: Highlight[];
+  sections?: DocumentSection[];
+  pages?: PageMarker[];
+  footnotes?: Footnote[];
+  skippedHeaderFooterLines?: number;
+  extractionMethod?: ExtractionMethod;
+  dialogue?: DialogueSpan[]; // Attributed dialogue, set once characters have been detected
+  speakerVoices?: Record<string, string>; // Gemini voice by character, including the narrator
+  narrationStyle?: NarrationStyle;
+  lexicon?: LexiconEntry[]; // Pronunciations for this document only, override shared ones
+  translations?: DocumentTranslation[];
+}
+
+// A translation of a document, paragraph by paragraph. Its narration is
+// kept apart from the original's, in fields like the HistoryItem's.
+export interface DocumentTranslation {
+  language: string; // ISO 639-1 code
+  paragraphs: string[]; // One for each paragraph of the original, in order
+  createdAt: number;
+  narrationVoice?: string;
+  timingMap?: ChunkTiming[];
+  lastPosition?: number;
+  lastOffset?: number;
+}
+
+// A stretch of a transcript spoken by one speaker. Times are seconds from
+// the start of the audio.
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+export interface Transcript {
+  language: string; // Detected language code, e.g. 'en'
+  segments: TranscriptSegment[];
+}
+
+// A saved transcription. Its recording is stored separately, so listing
+// transcripts doesn't load the audio.
+export interface TranscriptItem {
+  id: string;
+  fileName: string; // The uploaded file, or a name for a microphone recording
+  createdAt: number;
+  duration: number; // Seconds
+  transcript: Transcript;
+  // Results of the tools run on the transcript, unset until first run
+  summary?: TranscriptSummary;
+  actionItems?: ActionItem[];
+  decisions?: string[];
+  translations?: TranscriptTranslation[];
+}
+
+export type SummaryLength = 'short' | 'medium' | 'long';
+
+export interface TranscriptSummary {
+  length: SummaryLength;
+  text: string;
+}
+
+export interface ActionItem {
+  task: string;
+  owner: string; // Empty when nobody was named
+}
+
+// A translation aligned with the transcript: one text per segment
+export interface TranscriptTranslation {
+  language: string; // ISO 639-1 code
+  segments: string[];
 }